@@ -9,19 +9,42 @@ import AudioExtractor from './components/AudioExtractor';
 import Button from './components/Button';
 import AdminPanel from './components/AdminPanel';
 import DisplaySettings from './components/DisplaySettings';
-import { TranscriptionSettings, ProcessingStatus, TranscriptionError } from './types';
-import { transcribeMedia } from './services/geminiService';
+import ChunkProgress from './components/ChunkProgress';
+import ResumeJobBanner from './components/ResumeJobBanner';
+import JobLogPanel from './components/JobLogPanel';
+import RemoteFilesPanel from './components/RemoteFilesPanel';
+import CostEstimate from './components/CostEstimate';
+import UsagePanel from './components/UsagePanel';
+import GlossaryManager from './components/GlossaryManager';
+import { TranscriptionSettings, ProcessingStatus, TranscriptionError, TranscriptionJob } from './types';
+import { runTranscriptionJob, DEFAULT_CHUNK_MINUTES } from './services/transcriptionPipeline';
+import { STOPPED_MESSAGE } from './services/apiErrors';
+import { deleteGeminiFile } from './services/geminiService';
+import { recordUsage } from './services/usageLedger';
+import { updateSegment } from './services/transcriptDocument';
+import { useTranscriptStore } from './hooks/useTranscriptStore';
+import { flushTranscript, loadSavedTranscript, persistTranscript } from './services/transcriptPersistence';
+import { addSnapshot, createSnapshot } from './services/snapshots';
+import { ProjectData, parseProject, serializeProject } from './services/projectFile';
+import { loadGlossarySelection, saveGlossarySelection, getSelectedTerms, createGlossaryCorrector } from './services/glossaryStore';
+import { createJob, getJobText, isJobResumable, isSameFile, loadJob, saveJob, persistJob, clearJob } from './services/jobStore';
 import { loginAdminWithGoogle, validateLicenseKey, saveLicense, getStoredLicense, clearLicense, logoutAdmin, ADMIN_EMAIL } from './services/authService';
 import { MAX_FILE_SIZE_INLINE } from './constants';
 
 const App: React.FC = () => {
   // State
   const [file, setFile] = useState<File | null>(null);
-  const [transcription, setTranscription] = useState('');
-  const [status, setStatus] = useState<ProcessingStatus>('idle');
+  // Restore an interrupted job (and its partial transcript) from the previous session
+  const [job, setJob] = useState<TranscriptionJob | null>(() => loadJob());
+  const transcript = useTranscriptStore(() => loadSavedTranscript() || (job ? getJobText(job) : ''));
+  const transcription = transcript.text;
+  const [status, setStatus] = useState<ProcessingStatus>(() => job && isJobResumable(job) ? job.status : 'idle');
   const [error, setError] = useState<TranscriptionError | null>(null);
   const [activeTab, setActiveTab] = useState<'transcription' | 'summary'>('transcription');
+  const [summary, setSummary] = useState('');
   const [showGuide, setShowGuide] = useState(true);
+  const [uploadProgress, setUploadProgress] = useState<{ sent: number; total: number } | null>(null);
+  const [fileDuration, setFileDuration] = useState(0);
   
   // Display State
   const [theme, setTheme] = useState<'light' | 'dark'>(() => (localStorage.getItem('theme') as 'light' | 'dark') || 'light');
@@ -43,11 +66,18 @@ const App: React.FC = () => {
     enableTimestamps: true, // Default to true for better table view experience
     speakers: [],
     startTime: "00:00",
-    customPrompt: ""
+    customPrompt: "",
+    outputMode: 'structured', // JSON segments; 'text' is the legacy free-text fallback
+    autoChunk: true,
+    chunkMinutes: DEFAULT_CHUNK_MINUTES,
+    glossaryIds: loadGlossarySelection()
   });
 
+  const isBusy = status === 'decoding' || status === 'uploading' || status === 'transcribing';
+
   // Refs
   const abortControllerRef = useRef<AbortController | null>(null);
+  const snapshotPendingRef = useRef<string | null>(null); // Snapshot name to take once the finished run reaches the store
 
   // --- Initialization ---
   useEffect(() => {
@@ -91,6 +121,27 @@ const App: React.FC = () => {
     localStorage.setItem('fontSize', fontSize);
   }, [theme, fontSize]);
 
+  // Keep edits (and review state) across reloads
+  useEffect(() => {
+    persistTranscript(transcript.document);
+  }, [transcript.document]);
+
+  // The save is throttled; write the last edit before a reload or tab close
+  useEffect(() => {
+    window.addEventListener('pagehide', flushTranscript);
+    return () => window.removeEventListener('pagehide', flushTranscript);
+  }, []);
+
+  // Keep the raw AI output of every finished run, so it can be compared with the edited transcript
+  useEffect(() => {
+    if (status !== 'completed' || !snapshotPendingRef.current) return;
+    const name = snapshotPendingRef.current;
+    snapshotPendingRef.current = null;
+    if (transcript.document.blocks.length > 0) {
+      addSnapshot(createSnapshot(name, transcript.document, 'ai-output'));
+    }
+  }, [status, transcript.document]);
+
   // --- Handlers ---
 
   const handleFileSelect = (selectedFile: File, estimatedStartTime?: string) => {
@@ -113,20 +164,82 @@ const App: React.FC = () => {
   };
 
   const handleClearFile = () => {
-    if (status === 'transcribing' || status === 'uploading') return;
+    if (isBusy) return;
     setFile(null);
     setStatus('idle');
     setSettings(prev => ({ ...prev, startTime: "00:00" }));
   };
 
   const handleClearTranscription = () => {
+    if (isBusy) return;
     if (window.confirm("確定要清空所有轉錄內容嗎？")) {
-      setTranscription('');
+      transcript.setText('');
+      // The saved job would restore the cleared text on resume, so drop it too
+      clearJob();
+      setJob(null);
     }
   };
   
   const handleUpdateTranscription = (newText: string) => {
-    setTranscription(newText);
+    transcript.setText(newText);
+  };
+
+  const handleExportProject = () => {
+    const source = file
+      ? { name: file.name, size: file.size, type: file.type, lastModified: file.lastModified, duration: fileDuration || undefined }
+      : job ? { ...job.source, duration: job.duration || undefined } : null;
+    const blob = new Blob([serializeProject({ document: transcript.document, settings, summary, source })], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `project_${new Date().toISOString().slice(0,10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Restores transcript, settings and summary from a project file (the transcript change can be undone)
+  const handleImportProject = (json: string) => {
+    let project: ProjectData;
+    try {
+      project = parseProject(json);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    const segments = project.document.blocks.filter(b => b.type === 'segment').length;
+    if (!window.confirm(`專案包含 ${segments} 個段落${project.settings ? '及設定' : ''}${project.summary ? '及摘要' : ''}。確定導入嗎？(將覆蓋現有內容)`)) return;
+
+    transcript.apply(() => project.document);
+    const imported = project.settings;
+    if (imported) {
+      // API keys are not exported; keep the one entered on this machine
+      setSettings(prev => ({
+        ...prev,
+        ...imported,
+        localServer: imported.localServer ? { ...imported.localServer, apiKey: prev.localServer?.apiKey } : prev.localServer,
+      }));
+      if (imported.glossaryIds) saveGlossarySelection(imported.glossaryIds);
+    }
+    setSummary(project.summary);
+    if (project.source && !(file && isSameFile(project.source, file))) {
+      alert(`專案已導入。如需播放錄音，請選擇原始檔案：${project.source.name}`);
+    }
+  };
+
+  const handleGlossarySelection = (ids: string[]) => {
+    saveGlossarySelection(ids);
+    setSettings(prev => ({ ...prev, glossaryIds: ids }));
+  };
+
+  const handleApplyGlossary = () => {
+    const correctLine = createGlossaryCorrector(getSelectedTerms(settings.glossaryIds));
+    if (!correctLine) return;
+    transcript.apply(doc => doc.blocks.reduce((d, b) => {
+      if (b.type !== 'segment') return d;
+      const text = correctLine(b.text);
+      const speaker = correctLine(b.speaker);
+      return text === b.text && speaker === b.speaker ? d : updateSegment(d, b.id, { text, speaker });
+    }, doc));
   };
 
   // Helper to check duration
@@ -147,17 +260,26 @@ const App: React.FC = () => {
     });
   };
 
+  useEffect(() => {
+    setFileDuration(0);
+    if (!file) return;
+    let cancelled = false;
+    getMediaDuration(file).then(d => { if (!cancelled && isFinite(d)) setFileDuration(d); });
+    return () => { cancelled = true; };
+  }, [file]);
+
   const handleStart = async () => {
     if (!file) return;
-    if (missingApiKey) {
+    if (missingApiKey && settings.provider !== 'local') {
         alert("無法開始：缺少 API Key。請檢查系統設定。");
         return;
     }
 
+    const duration = await getMediaDuration(file);
+
     // --- PRO LIMIT CHECK ---
     if (!isPro) {
         setStatus('idle'); // Ensure status doesn't stick
-        const duration = await getMediaDuration(file);
         // 7 minutes = 420 seconds
         if (duration > 420) {
             setError({
@@ -167,35 +289,117 @@ const App: React.FC = () => {
             return;
         }
     }
-    
-    setStatus(file.size > MAX_FILE_SIZE_INLINE ? 'uploading' : 'transcribing');
+
+    if (job && isJobResumable(job) && !window.confirm("有未完成的轉錄工作，開始新的轉錄將捨棄該工作。確定嗎？")) {
+        return;
+    }
+
+    const chunkMinutes = settings.chunkMinutes || DEFAULT_CHUNK_MINUTES;
+    const useChunking = !!settings.autoChunk && isFinite(duration) && duration > chunkMinutes * 60;
+
+    const hasOffset = settings.startTime && settings.startTime !== "00:00" && settings.startTime !== "0:00";
+    const isAppend = transcription.length > 0;
+    const baseText = isAppend || hasOffset
+      ? transcription + `\n\n--- [接續檔案: ${file.name} | Start: ${settings.startTime}] ---\n\n`
+      : transcription;
+
+    const newJob = createJob(
+      file,
+      settings,
+      isFinite(duration) ? duration : 0,
+      useChunking ? chunkMinutes * 60 : null,
+      baseText
+    );
+    await runJob(newJob, file);
+  };
+
+  const handleResume = async (source: File) => {
+    if (!job) return;
+    if (!isSameFile(job.source, source)) {
+        alert(`所選檔案與未完成的工作不符。請選擇原始檔案：${job.source.name}`);
+        return;
+    }
+    if (transcription !== getJobText(job) && !window.confirm("繼續轉錄會以已儲存的進度取代目前的轉錄內容 (停止後的修改將會遺失)。確定繼續嗎？")) {
+        return;
+    }
+    setFile(source);
+    await runJob(job, source);
+  };
+
+  const handleDiscardJob = () => {
+    if (window.confirm("確定要捨棄未完成的轉錄工作嗎？(已轉錄的內容會保留)")) {
+      clearJob();
+      setJob(null);
+    }
+  };
+
+  // Runs a new or resumed job; every state change is mirrored to the transcript and local storage
+  const runJob = async (initialJob: TranscriptionJob, source: File) => {
+    const needsUpload = initialJob.settings.provider !== 'local' && source.size > MAX_FILE_SIZE_INLINE;
+    setStatus(initialJob.chunked ? 'decoding' : needsUpload ? 'uploading' : 'transcribing');
     setError(null);
     setActiveTab('transcription');
     setShowGuide(false); 
+    setUploadProgress(null);
     
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
 
-    const hasOffset = settings.startTime && settings.startTime !== "00:00" && settings.startTime !== "0:00";
-    const isAppend = transcription.length > 0;
-
-    if (isAppend || hasOffset) {
-      setTranscription(prev => prev + `\n\n--- [接續檔案: ${file.name} | Start: ${settings.startTime}] ---\n\n`);
-    }
+    let latestJob = initialJob;
+    const handleJobChange = (updated: TranscriptionJob) => {
+      latestJob = updated;
+      setJob(updated);
+      // One undo step per job run
+      transcript.setText(getJobText(updated), { coalesceKey: `job:${updated.id}` });
+      persistJob(updated);
+    };
+    handleJobChange(initialJob);
 
     try {
-      await transcribeMedia(
-        file, 
-        settings, 
-        (chunkText) => {
-            setStatus('transcribing');
-            setTranscription(prev => prev + chunkText);
+      const finished = await runTranscriptionJob(
+        initialJob,
+        source,
+        {
+          onJobChange: handleJobChange,
+          onPhase: (phase) => setStatus(phase),
+          onUploadProgress: (sent, total) => setUploadProgress({ sent, total }),
+          onUsage: (usage, chunkIndex) => recordUsage(usage, {
+            kind: 'transcription',
+            jobId: initialJob.id,
+            fileName: initialJob.source.name,
+            chunkIndex: initialJob.chunked ? chunkIndex : undefined
+          })
         },
         abortController.signal
       );
+
+      const failed = finished.chunks.filter(c => c.status === 'error').length;
+      if (failed > 0) {
+        saveJob(finished); // Keep it so the failed chunks can be retried
+        setError({
+          type: 'general',
+          message: `${failed} 個片段轉錄失敗，其餘片段已完成。失敗位置已在結果中標示，可按「繼續轉錄」重試。`
+        });
+      } else {
+        clearJob();
+        if (finished.settings.deleteRemoteAfterJob) {
+          // Best effort: files left behind expire on the server after 48 hours anyway
+          (finished.remoteFiles || []).forEach(name => deleteGeminiFile(name).catch(e => console.warn("Delete remote file failed", e)));
+        }
+      }
+      snapshotPendingRef.current = `AI 原始輸出 - ${finished.source.name}`;
       setStatus('completed');
     } catch (err: any) {
-      if (err.message === 'Transcription stopped by user.') {
+      const stopped = err.message === STOPPED_MESSAGE;
+      const interrupted: TranscriptionJob = {
+        ...latestJob,
+        status: stopped ? 'stopped' : 'error',
+        chunks: latestJob.chunks.map(c => c.status === 'transcribing' ? { ...c, status: 'pending' } : c)
+      };
+      setJob(interrupted);
+      saveJob(interrupted);
+
+      if (stopped) {
         setStatus('stopped');
       } else {
         setStatus('error');
@@ -266,10 +470,15 @@ const App: React.FC = () => {
   const StatusBadge = () => {
     switch (status) {
       case 'idle': return null;
+      case 'decoding':
+        return <span className="inline-flex items-center text-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-blue-300 px-3 py-1 rounded-full text-sm font-medium"><Loader2 size={16} className="mr-2 animate-spin"/> 解碼及分段中...</span>;
       case 'uploading': 
-        return <span className="inline-flex items-center text-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-blue-300 px-3 py-1 rounded-full text-sm font-medium"><UploadCloud size={16} className="mr-2 animate-bounce"/> 上載至雲端中...</span>;
-      case 'transcribing':
-        return <span className="inline-flex items-center text-amber-600 bg-amber-50 dark:bg-amber-900/30 dark:text-amber-300 px-3 py-1 rounded-full text-sm font-medium"><Loader2 size={16} className="mr-2 animate-spin"/> 正在轉錄 (AI 思考中)...</span>;
+        return <span className="inline-flex items-center text-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-blue-300 px-3 py-1 rounded-full text-sm font-medium"><UploadCloud size={16} className="mr-2 animate-bounce"/> 上載至雲端中{uploadProgress && uploadProgress.total > 0 ? ` ${Math.floor((uploadProgress.sent / uploadProgress.total) * 100)}% (${(uploadProgress.sent / 1048576).toFixed(1)}/${(uploadProgress.total / 1048576).toFixed(1)} MB)` : '...'}</span>;
+      case 'transcribing': {
+        const chunks = job?.chunked ? job.chunks : [];
+        const current = chunks.find(c => c.status === 'transcribing');
+        return <span className="inline-flex items-center text-amber-600 bg-amber-50 dark:bg-amber-900/30 dark:text-amber-300 px-3 py-1 rounded-full text-sm font-medium"><Loader2 size={16} className="mr-2 animate-spin"/> {current ? `正在轉錄 (片段 ${current.index + 1}/${chunks.length})...` : '正在轉錄 (AI 思考中)...'}</span>;
+      }
       case 'completed':
         return <span className="inline-flex items-center text-green-600 bg-green-50 dark:bg-green-900/30 dark:text-green-300 px-3 py-1 rounded-full text-sm font-medium"><CheckCircle2 size={16} className="mr-2"/> 完成</span>;
       case 'error':
@@ -559,7 +768,7 @@ const App: React.FC = () => {
                         onFileSelect={handleFileSelect}
                         selectedFile={file}
                         onClear={handleClearFile}
-                        disabled={status === 'uploading' || status === 'transcribing'}
+                        disabled={isBusy}
                     />
                 </section>
 
@@ -568,12 +777,29 @@ const App: React.FC = () => {
                     <SettingsPanel 
                         settings={settings}
                         onChange={setSettings}
-                        disabled={status === 'uploading' || status === 'transcribing'}
+                        disabled={isBusy}
                     />
                 </section>
 
+                {job && !isBusy && isJobResumable(job) && (
+                    <ResumeJobBanner 
+                        job={job}
+                        currentFile={file}
+                        onResume={handleResume}
+                        onDiscard={handleDiscardJob}
+                    />
+                )}
+
+                <ChunkProgress chunks={job?.chunked ? job.chunks : []} />
+
+                <JobLogPanel entries={job?.log || []} />
+
+                {file && !isBusy && (
+                    <CostEstimate duration={fileDuration} isVideo={file.type.startsWith('video')} settings={settings} />
+                )}
+
                 <div className="sticky bottom-0 bg-slate-50 dark:bg-slate-900 pt-2 pb-2 z-10">
-                    {status === 'transcribing' || status === 'uploading' ? (
+                    {isBusy ? (
                         <Button 
                         onClick={handleStop}
                         variant="danger"
@@ -624,17 +850,28 @@ const App: React.FC = () => {
                     <div className={`absolute inset-0 flex flex-col transition-opacity duration-200 ${activeTab === 'transcription' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
                         <TranscriptionView 
                             text={transcription} 
+                            document={transcript.document}
+                            onApply={transcript.apply}
+                            onUndo={transcript.undo}
+                            onRedo={transcript.redo}
+                            canUndo={transcript.canUndo && !isBusy}
+                            canRedo={transcript.canRedo && !isBusy}
                             status={status} 
                             speakers={settings.speakers} // Pass mapping config here!
                             onClear={handleClearTranscription}
                             onUpdate={handleUpdateTranscription}
                             onSwitchToSummary={() => setActiveTab('summary')}
+                            mediaFile={file}
+                            summary={summary}
+                            exportInfo={{ fileName: file?.name || job?.source.name, languages: settings.language, model: settings.model }}
+                            onExportProject={handleExportProject}
+                            onImportProject={isBusy ? undefined : handleImportProject}
                             className="h-full"
                         />
                     </div>
 
                      <div className={`absolute inset-0 flex flex-col transition-opacity duration-200 ${activeTab === 'summary' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
-                        <SummaryPanel transcriptionText={transcription} />
+                        <SummaryPanel transcriptionText={transcription} settings={settings} summary={summary} onSummaryChange={setSummary} />
                     </div>
                 </div>
             </div>
@@ -644,12 +881,20 @@ const App: React.FC = () => {
                  <div>
                     <h2 className="text-sm uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold mb-3">4. 輔助工具</h2>
                     <div className="flex flex-col gap-6">
+                        <GlossaryManager
+                            selectedIds={settings.glossaryIds || []}
+                            onSelectionChange={handleGlossarySelection}
+                            onApplyToTranscript={transcription ? handleApplyGlossary : undefined}
+                            disabled={isBusy}
+                        />
                         <FileSplitter 
                             onSelectSegment={handleFileSelect} 
                             isPro={isPro}
                             onRequestUnlock={() => setShowLoginModal(true)}
                         />
                         <AudioExtractor />
+                        {settings.provider !== 'local' && <RemoteFilesPanel />}
+                        <UsagePanel />
                     </div>
                  </div>
             </div>
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Layers, CheckCircle2, Loader2, AlertCircle, Circle } from 'lucide-react';
+import { ChunkStatus } from '../types';
+import { formatSecondsToTime } from '../utils/time';
+
+interface ChunkProgressProps {
+  chunks: ChunkStatus[];
+}
+
+const ChunkProgress: React.FC<ChunkProgressProps> = ({ chunks }) => {
+  if (chunks.length === 0) return null;
+
+  const done = chunks.filter(c => c.status === 'completed').length;
+  const failed = chunks.filter(c => c.status === 'error').length;
+  const percent = Math.round(((done + failed) / chunks.length) * 100);
+
+  const renderIcon = (chunk: ChunkStatus) => {
+    switch (chunk.status) {
+      case 'completed': return <CheckCircle2 size={12} className="text-green-500 shrink-0" />;
+      case 'transcribing': return <Loader2 size={12} className="text-amber-500 animate-spin shrink-0" />;
+      case 'error': return <AlertCircle size={12} className="text-red-500 shrink-0" />;
+      default: return <Circle size={12} className="text-slate-300 dark:text-slate-600 shrink-0" />;
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 text-slate-800 dark:text-slate-100">
+          <Layers size={16} className="text-blue-600 dark:text-blue-400" />
+          <h3 className="font-semibold text-sm">自動分段進度</h3>
+        </div>
+        <span className="text-xs text-slate-500 dark:text-slate-400 font-mono">
+          {done}/{chunks.length}{failed > 0 && <span className="text-red-500 ml-1">({failed} 失敗)</span>}
+        </span>
+      </div>
+
+      <div className="w-full h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden mb-3">
+        <div className="h-full bg-blue-600 dark:bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+
+      <div className="flex flex-col gap-1 max-h-[160px] overflow-y-auto scrollbar-thin">
+        {chunks.map(chunk => (
+          <div key={chunk.index} className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300" title={chunk.error}>
+            {renderIcon(chunk)}
+            <span className="font-medium">片段 {chunk.index + 1}</span>
+            <span className="font-mono text-slate-400">
+              {formatSecondsToTime(chunk.start)} - {formatSecondsToTime(chunk.end)}
+            </span>
+            {chunk.error && <span className="text-red-500 truncate">{chunk.error}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ChunkProgress;
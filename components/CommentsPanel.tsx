@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { MessageSquare, X, CheckCircle2, RotateCcw, Trash2, Send } from 'lucide-react';
+import Button from './Button';
+import { CommentThread, TranscriptDocument } from '../types';
+import { TranscriptOperation, ApplyOptions } from '../hooks/useTranscriptStore';
+import {
+  CommentExportMode, addThread, replyToThread, setThreadResolved, deleteThread,
+  getCommentedSegments, loadCommentAuthor, saveCommentAuthor
+} from '../services/comments';
+
+interface CommentsPanelProps {
+  document: TranscriptDocument;
+  targetId: string | null; // Segment that new comments are added to
+  describeSegment: (id: string) => string; // e.g. "12:34 陳大文"
+  onSelectSegment: (id: string) => void;
+  onApply?: (op: TranscriptOperation, options?: ApplyOptions) => void;
+  exportMode: CommentExportMode;
+  onExportModeChange: (mode: CommentExportMode) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 rounded focus:ring-2 focus:ring-blue-500 outline-none";
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString('zh-HK', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const CommentsPanel: React.FC<CommentsPanelProps> = ({ document: transcriptDoc, targetId, describeSegment, onSelectSegment, onApply, exportMode, onExportModeChange, onClose, disabled }) => {
+  const [author, setAuthor] = useState(() => loadCommentAuthor());
+  const [draft, setDraft] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+
+  const commented = useMemo(() => getCommentedSegments(transcriptDoc), [transcriptDoc]);
+  const targetExists = !!targetId && transcriptDoc.blocks.some(b => b.id === targetId && b.type === 'segment');
+  const openCount = commented.reduce((n, s) => n + s.threads.filter(t => !t.resolved).length, 0);
+
+  const canEdit = !disabled && !!onApply;
+
+  const handleAuthorChange = (value: string) => {
+    setAuthor(value);
+    saveCommentAuthor(value);
+  };
+
+  const handleAdd = () => {
+    if (!onApply || !targetId || !draft.trim()) return;
+    const text = draft;
+    onApply(doc => addThread(doc, targetId, author, text));
+    setDraft('');
+  };
+
+  const handleReply = (segmentId: string, thread: CommentThread) => {
+    const text = replyDrafts[thread.id];
+    if (!onApply || !text?.trim()) return;
+    onApply(doc => replyToThread(doc, segmentId, thread.id, author, text));
+    setReplyDrafts({ ...replyDrafts, [thread.id]: '' });
+  };
+
+  return (
+    <aside className="w-72 shrink-0 border-l border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/40 flex flex-col min-h-0 text-xs">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-100 dark:border-slate-800 font-semibold text-slate-700 dark:text-slate-300">
+        <MessageSquare size={14} className="text-blue-600 dark:text-blue-400" />
+        留言
+        <span className="font-normal text-slate-400">({openCount} 未解決)</span>
+        <button onClick={onClose} className="ml-auto p-1 rounded text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700" title="關閉">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="px-3 py-2 border-b border-slate-100 dark:border-slate-800 flex flex-col gap-2">
+        <input className={inputClass} placeholder="你的名字" value={author} onChange={e => handleAuthorChange(e.target.value)} />
+        {targetExists ? (
+          <>
+            <span className="text-slate-500 dark:text-slate-400">新增留言到 <span className="font-mono">{describeSegment(targetId!)}</span></span>
+            <textarea
+              className={`${inputClass} resize-none`}
+              rows={2}
+              placeholder="例如: 需與證物 4 核對"
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleAdd(); }}
+            />
+            <Button variant="secondary" onClick={handleAdd} disabled={!canEdit || !draft.trim()} className="text-xs h-7 px-2 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600">
+              <Send size={12} /> 新增留言
+            </Button>
+          </>
+        ) : (
+          <span className="text-slate-400">點擊段落旁的留言圖示以新增留言。</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-slate-100 dark:border-slate-800 text-slate-500 dark:text-slate-400">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={showResolved} onChange={e => setShowResolved(e.target.checked)} className="w-3 h-3" />
+          顯示已解決
+        </label>
+        <label className="flex items-center gap-1 ml-auto" title="CSV / TXT 匯出時如何包含留言">
+          匯出:
+          <select value={exportMode} onChange={e => onExportModeChange(e.target.value as CommentExportMode)} className="bg-transparent border border-slate-200 dark:border-slate-700 rounded px-1 py-0.5 dark:bg-slate-800">
+            <option value="none">不包含</option>
+            <option value="column">額外欄位</option>
+            <option value="footnotes">註腳</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin px-3 py-2 flex flex-col gap-3">
+        {commented.length === 0 && <p className="text-slate-400">尚無留言。</p>}
+        {commented.map(({ segment, threads }) => {
+          const visible = threads.filter(t => showResolved || !t.resolved);
+          if (visible.length === 0) return null;
+          return (
+            <div key={segment.id} className="flex flex-col gap-1.5">
+              <button
+                onClick={() => onSelectSegment(segment.id)}
+                className={`text-left rounded px-1.5 py-1 hover:bg-slate-200 dark:hover:bg-slate-700 ${segment.id === targetId ? 'bg-blue-50 dark:bg-blue-900/30' : ''}`}
+              >
+                <span className="font-mono text-slate-500 dark:text-slate-400">{describeSegment(segment.id)}</span>
+                <span className="block text-slate-600 dark:text-slate-300 truncate">{segment.text}</span>
+              </button>
+
+              {visible.map(thread => (
+                <div key={thread.id} className={`rounded border p-2 flex flex-col gap-1.5 ${thread.resolved ? 'border-slate-200 dark:border-slate-700 opacity-60' : 'border-amber-200 dark:border-amber-800 bg-white dark:bg-slate-900'}`}>
+                  {thread.comments.map(c => (
+                    <div key={c.id}>
+                      <div className="flex items-baseline gap-1">
+                        <span className="font-semibold text-slate-700 dark:text-slate-200">{c.author}</span>
+                        <span className="text-[10px] text-slate-400">{formatDate(c.createdAt)}</span>
+                      </div>
+                      <p className="text-slate-600 dark:text-slate-300 whitespace-pre-wrap break-words">{c.text}</p>
+                    </div>
+                  ))}
+
+                  {thread.resolved && thread.resolvedAt && (
+                    <span className="text-[10px] text-green-600 dark:text-green-400">
+                      已由 {thread.resolvedBy || '匿名'} 於 {formatDate(thread.resolvedAt)} 標記為已解決
+                    </span>
+                  )}
+
+                  {!thread.resolved && (
+                    <input
+                      className={inputClass}
+                      placeholder="回覆… (Enter 送出)"
+                      value={replyDrafts[thread.id] || ''}
+                      disabled={!canEdit}
+                      onChange={e => setReplyDrafts({ ...replyDrafts, [thread.id]: e.target.value })}
+                      onKeyDown={e => e.key === 'Enter' && handleReply(segment.id, thread)}
+                    />
+                  )}
+
+                  <div className="flex items-center gap-1 justify-end">
+                    <button
+                      onClick={() => onApply?.(doc => setThreadResolved(doc, segment.id, thread.id, !thread.resolved, author))}
+                      disabled={!canEdit}
+                      className="flex items-center gap-1 px-1.5 py-0.5 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40"
+                    >
+                      {thread.resolved ? <><RotateCcw size={12} /> 重新開啟</> : <><CheckCircle2 size={12} /> 解決</>}
+                    </button>
+                    <button
+                      onClick={() => { if (window.confirm("確定要刪除此留言串嗎？")) onApply?.(doc => deleteThread(doc, segment.id, thread.id)); }}
+                      disabled={!canEdit}
+                      className="p-1 rounded text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40"
+                      title="刪除留言串"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default CommentsPanel;
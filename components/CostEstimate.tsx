@@ -0,0 +1,49 @@
+import React from 'react';
+import { Calculator, AlertTriangle } from 'lucide-react';
+import { TranscriptionSettings } from '../types';
+import { estimateTranscriptionUsage, formatTokens, formatUsd } from '../services/usageLedger';
+
+interface CostEstimateProps {
+  duration: number; // seconds, 0 while unknown
+  isVideo: boolean;
+  settings: TranscriptionSettings;
+}
+
+const CostEstimate: React.FC<CostEstimateProps> = ({ duration, isVideo, settings }) => {
+  const estimate = estimateTranscriptionUsage(duration, isVideo, settings);
+  if (!estimate) return null;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 text-slate-800 dark:text-slate-100">
+          <Calculator size={16} className="text-emerald-600 dark:text-emerald-400" />
+          <h3 className="font-semibold text-sm">預估用量</h3>
+        </div>
+        <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">
+          {estimate.costUsd !== null ? `≈ ${formatUsd(estimate.costUsd)}` : '未知價格'}
+        </span>
+      </div>
+
+      <div className="text-xs text-slate-500 dark:text-slate-400 flex flex-wrap gap-x-3">
+        <span>輸入 ≈ {formatTokens(estimate.inputTokens)} tokens</span>
+        <span>輸出 ≈ {formatTokens(estimate.outputTokens)} tokens</span>
+        {estimate.requests > 1 && <span>{estimate.requests} 次請求</span>}
+      </div>
+
+      {estimate.exceedsOutputLimit && (
+        <div className="mt-2 text-xs flex items-start gap-1.5 text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 p-2 rounded-lg">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <span>
+            每次請求預計輸出約 {formatTokens(estimate.requestOutputTokens)} tokens，超過此模型上限 {formatTokens(estimate.outputLimit)}，結果可能被截斷。
+            建議開啟「長檔案自動分段轉錄」或縮短每段長度。
+          </span>
+        </div>
+      )}
+
+      <p className="text-[10px] text-slate-400 mt-2">按錄音長度及公開價格粗略估算，實際用量以轉錄後記錄為準。</p>
+    </div>
+  );
+};
+
+export default CostEstimate;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { Scale, X, Printer, Download } from 'lucide-react';
+import Button from './Button';
+import { ExportInfo } from '../types';
+import {
+  CourtOptions, CourtRow, CHARS_PER_LINE_RANGE, LINES_PER_PAGE_RANGE,
+  buildCourtTranscriptHtml, layoutCourtLines, loadCourtOptions, paginateLines, saveCourtOptions
+} from '../services/courtTranscript';
+
+interface CourtExportDialogProps {
+  rows: CourtRow[];
+  exportInfo?: ExportInfo;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 rounded focus:ring-2 focus:ring-blue-500 outline-none";
+const labelClass = "flex flex-col gap-1 text-xs text-slate-600 dark:text-slate-300";
+
+const CourtExportDialog: React.FC<CourtExportDialogProps> = ({ rows, exportInfo, onClose }) => {
+  const [options, setOptions] = useState<CourtOptions>(() => loadCourtOptions());
+
+  const update = (patch: Partial<CourtOptions>) => {
+    const next = { ...options, ...patch };
+    setOptions(next);
+    saveCourtOptions(next);
+  };
+
+  const pageCount = useMemo(
+    () => paginateLines(layoutCourtLines(rows, options), options.linesPerPage).length,
+    [rows, options]
+  );
+
+  const buildHtml = () => buildCourtTranscriptHtml({ ...exportInfo, rows, options });
+
+  // The browser's print dialog also offers "Save as PDF"
+  const handlePrint = () => {
+    const win = window.open('', '_blank');
+    if (!win) {
+      alert("無法開啟列印視窗，請允許此網站開啟彈出視窗。");
+      return;
+    }
+    win.document.open();
+    win.document.write(buildHtml());
+    win.document.close();
+    win.focus();
+    setTimeout(() => win.print(), 300);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([buildHtml()], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `transcript_court_${new Date().toISOString().slice(0,10)}.html`;
+    a.click();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col border border-slate-200 dark:border-slate-700">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100 dark:border-slate-700">
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <Scale size={20} className="text-blue-600 dark:text-blue-400" /> 法庭格式逐字稿
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 grid grid-cols-2 gap-3">
+          <label className={`${labelClass} col-span-2`}>
+            封面標題
+            <input className={inputClass} value={options.title} placeholder={exportInfo?.fileName || '逐字稿'} onChange={e => update({ title: e.target.value })} />
+          </label>
+          <label className={labelClass}>
+            頁首文字
+            <input className={inputClass} value={options.headerText} placeholder="例如: 案件編號 HCA 123/2024" onChange={e => update({ headerText: e.target.value })} />
+          </label>
+          <label className={labelClass}>
+            頁尾文字
+            <input className={inputClass} value={options.footerText} placeholder="例如: 機密文件" onChange={e => update({ footerText: e.target.value })} />
+          </label>
+          <label className={labelClass}>
+            每頁行數 ({LINES_PER_PAGE_RANGE[0]}–{LINES_PER_PAGE_RANGE[1]})
+            <input type="number" min={LINES_PER_PAGE_RANGE[0]} max={LINES_PER_PAGE_RANGE[1]} className={inputClass} value={options.linesPerPage} onChange={e => update({ linesPerPage: Number(e.target.value) })} />
+          </label>
+          <label className={labelClass}>
+            每行字寬 (半形字元，中文佔 2)
+            <input type="number" min={CHARS_PER_LINE_RANGE[0]} max={CHARS_PER_LINE_RANGE[1]} className={inputClass} value={options.charsPerLine} onChange={e => update({ charsPerLine: Number(e.target.value) })} />
+          </label>
+          <label className={labelClass}>
+            說話者縮排 (字元)
+            <input type="number" min={0} max={20} className={inputClass} value={options.speakerIndent} onChange={e => update({ speakerIndent: Math.max(0, Number(e.target.value) || 0) })} />
+          </label>
+          <label className={labelClass}>
+            謄寫員姓名 (證明頁)
+            <input className={inputClass} value={options.transcriber} onChange={e => update({ transcriber: e.target.value })} />
+          </label>
+
+          <div className="col-span-2 flex flex-wrap gap-x-4 gap-y-2 text-xs text-slate-600 dark:text-slate-300">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={options.coverPage} onChange={e => update({ coverPage: e.target.checked })} className="w-3 h-3" /> 封面頁
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={options.certificationPage} onChange={e => update({ certificationPage: e.target.checked })} className="w-3 h-3" /> 證明頁
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={options.showTimestamps} onChange={e => update({ showTimestamps: e.target.checked })} className="w-3 h-3" /> 左側顯示時間碼
+            </label>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 p-4 border-t border-slate-100 dark:border-slate-700">
+          <span className="text-xs text-slate-500 dark:text-slate-400">正文共 {pageCount} 頁</span>
+          <Button variant="secondary" onClick={handleDownload} className="ml-auto text-xs h-8 px-3 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600">
+            <Download size={14} /> 下載 HTML
+          </Button>
+          <Button variant="primary" onClick={handlePrint} className="text-xs h-8 px-3">
+            <Printer size={14} /> 列印 / 另存 PDF
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CourtExportDialog;
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronUp, ChevronDown, X, Replace, ReplaceAll, CaseSensitive, Regex } from 'lucide-react';
+import Button from './Button';
+import { Speaker, TranscriptDocument } from '../types';
+import { TranscriptOperation, ApplyOptions } from '../hooks/useTranscriptStore';
+import { buildSearchRegex, findMatches, replaceMatches, SearchScope } from '../services/transcriptSearch';
+import { mapSpeakerName } from '../services/speakers';
+
+interface FindReplacePanelProps {
+  document: TranscriptDocument;
+  speakers?: Speaker[]; // For showing mapped names in the speaker filter
+  selectedIds: Set<string>;
+  onApply?: (op: TranscriptOperation, options?: ApplyOptions) => void;
+  onFocusMatch: (blockId: string | null) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+type ScopeMode = 'all' | 'speaker' | 'selection' | 'time';
+
+const SNIPPET_CONTEXT = 20;
+
+const inputClass = "px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 rounded focus:ring-2 focus:ring-blue-500 outline-none";
+const toggleClass = (active: boolean) =>
+  `p-1 rounded transition-colors ${active ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'}`;
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ document: transcriptDoc, speakers, selectedIds, onApply, onFocusMatch, onClose, disabled }) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [useRegex, setUseRegex] = useState(false);
+  const [scopeMode, setScopeMode] = useState<ScopeMode>('all');
+  const [speaker, setSpeaker] = useState('');
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [current, setCurrent] = useState(0);
+  const queryRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    queryRef.current?.focus();
+  }, []);
+
+  const speakerLabels = useMemo(() => {
+    const labels = new Set<string>();
+    transcriptDoc.blocks.forEach(b => { if (b.type === 'segment' && b.speaker) labels.add(b.speaker); });
+    return Array.from(labels);
+  }, [transcriptDoc]);
+
+  const regex = useMemo(() => buildSearchRegex({ query, caseSensitive, regex: useRegex }), [query, caseSensitive, useRegex]);
+  const regexError = typeof regex === 'string' ? regex : null;
+
+  const scope: SearchScope = useMemo(() => {
+    switch (scopeMode) {
+      case 'speaker': return { speaker };
+      case 'selection': return { ids: selectedIds };
+      case 'time': return { from: range.from.trim() || undefined, to: range.to.trim() || undefined };
+      default: return {};
+    }
+  }, [scopeMode, speaker, selectedIds, range]);
+
+  const matches = useMemo(
+    () => regex instanceof RegExp ? findMatches(transcriptDoc, regex, scope) : [],
+    [transcriptDoc, regex, scope]
+  );
+
+  const currentIndex = matches.length > 0 ? Math.min(current, matches.length - 1) : -1;
+  const currentMatch = currentIndex >= 0 ? matches[currentIndex] : null;
+
+  useEffect(() => {
+    onFocusMatch(currentMatch?.blockId ?? null);
+  }, [currentMatch?.blockId, currentMatch?.index]);
+
+  useEffect(() => () => onFocusMatch(null), []);
+
+  const go = (delta: number) => {
+    if (matches.length === 0) return;
+    setCurrent((currentIndex + delta + matches.length) % matches.length);
+  };
+
+  const handleReplaceOne = () => {
+    if (!onApply || !currentMatch) return;
+    onApply(doc => replaceMatches(doc, [currentMatch], replacement, useRegex));
+    // The replaced match drops out, so the same index now points at the next one
+  };
+
+  const handleReplaceAll = () => {
+    if (!onApply || matches.length === 0) return;
+    const all = matches;
+    onApply(doc => replaceMatches(doc, all, replacement, useRegex));
+    setCurrent(0);
+  };
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      go(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const snippet = useMemo(() => {
+    if (!currentMatch) return null;
+    const block = transcriptDoc.blocks.find(b => b.id === currentMatch.blockId);
+    if (!block || block.type !== 'segment') return null;
+    const start = Math.max(0, currentMatch.index - SNIPPET_CONTEXT);
+    const end = currentMatch.index + currentMatch.length;
+    return {
+      before: (start > 0 ? '…' : '') + block.text.slice(start, currentMatch.index),
+      match: block.text.slice(currentMatch.index, end),
+      after: block.text.slice(end, end + SNIPPET_CONTEXT) + (end + SNIPPET_CONTEXT < block.text.length ? '…' : ''),
+    };
+  }, [currentMatch, transcriptDoc]);
+
+  return (
+    <div className="px-3 py-2 border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 flex flex-col gap-2 shrink-0 text-xs">
+      <div className="flex items-center gap-1">
+        <input
+          ref={queryRef}
+          className={`${inputClass} flex-1 min-w-0 ${regexError ? 'border-red-400 dark:border-red-500' : ''}`}
+          placeholder="尋找"
+          value={query}
+          onChange={e => { setQuery(e.target.value); setCurrent(0); }}
+          onKeyDown={handleQueryKeyDown}
+        />
+        <button onClick={() => setCaseSensitive(!caseSensitive)} className={toggleClass(caseSensitive)} title="區分大小寫">
+          <CaseSensitive size={16} />
+        </button>
+        <button onClick={() => setUseRegex(!useRegex)} className={toggleClass(useRegex)} title="正規表示式">
+          <Regex size={16} />
+        </button>
+        <span className="w-16 text-center text-slate-500 dark:text-slate-400 tabular-nums">
+          {query ? `${currentIndex + 1} / ${matches.length}` : ''}
+        </span>
+        <button onClick={() => go(-1)} disabled={matches.length === 0} className={toggleClass(false)} title="上一個 (Shift+Enter)">
+          <ChevronUp size={16} />
+        </button>
+        <button onClick={() => go(1)} disabled={matches.length === 0} className={toggleClass(false)} title="下一個 (Enter)">
+          <ChevronDown size={16} />
+        </button>
+        <button onClick={onClose} className={toggleClass(false)} title="關閉 (Esc)">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <input
+          className={`${inputClass} flex-1 min-w-0`}
+          placeholder={useRegex ? "取代為 (可使用 $1 等群組)" : "取代為"}
+          value={replacement}
+          onChange={e => setReplacement(e.target.value)}
+          onKeyDown={e => e.key === 'Escape' && onClose()}
+        />
+        <Button variant="secondary" onClick={handleReplaceOne} disabled={disabled || !currentMatch} className="text-xs h-7 px-2 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600" title="取代目前項目">
+          <Replace size={14} /> 取代
+        </Button>
+        <Button variant="secondary" onClick={handleReplaceAll} disabled={disabled || matches.length === 0} className="text-xs h-7 px-2 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600" title="全部取代 (可一次復原)">
+          <ReplaceAll size={14} /> 全部
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap text-slate-600 dark:text-slate-300">
+        <span>範圍:</span>
+        <select value={scopeMode} onChange={e => { setScopeMode(e.target.value as ScopeMode); setCurrent(0); }} className={inputClass}>
+          <option value="all">全部</option>
+          <option value="speaker">指定說話者</option>
+          <option value="selection">已選取的行 ({selectedIds.size})</option>
+          <option value="time">時間範圍</option>
+        </select>
+        {scopeMode === 'speaker' && (
+          <select value={speaker} onChange={e => { setSpeaker(e.target.value); setCurrent(0); }} className={inputClass}>
+            <option value="">(無說話者)</option>
+            {speakerLabels.map(label => <option key={label} value={label}>{mapSpeakerName(label, speakers)}</option>)}
+          </select>
+        )}
+        {scopeMode === 'time' && (
+          <>
+            <input className={`${inputClass} w-20 font-mono`} placeholder="00:00" value={range.from} onChange={e => setRange({ ...range, from: e.target.value })} />
+            <span>至</span>
+            <input className={`${inputClass} w-20 font-mono`} placeholder="結尾" value={range.to} onChange={e => setRange({ ...range, to: e.target.value })} />
+          </>
+        )}
+      </div>
+
+      {regexError && <p className="text-red-500">正規表示式無效: {regexError}</p>}
+      {snippet && (
+        <p className="text-slate-500 dark:text-slate-400 truncate">
+          {snippet.before}<mark className="bg-amber-200 dark:bg-amber-700/60 text-slate-900 dark:text-slate-100 rounded px-0.5">{snippet.match}</mark>{snippet.after}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FindReplacePanel;
@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import { BookA, Plus, Trash2, Upload, Wand2, ChevronDown, ChevronUp, X } from 'lucide-react';
+import Button from './Button';
+import { Glossary } from '../types';
+import { loadGlossaries, saveGlossaries, createGlossary, createTerm, splitAliases, parseGlossaryCsv } from '../services/glossaryStore';
+
+interface GlossaryManagerProps {
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onApplyToTranscript?: () => void; // Re-run the misspelling fix on the current transcript
+  disabled?: boolean;
+}
+
+const inputClass = "w-full px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 rounded focus:ring-2 focus:ring-blue-500 outline-none";
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ selectedIds, onSelectionChange, onApplyToTranscript, disabled }) => {
+  const [glossaries, setGlossaries] = useState<Glossary[]>(() => loadGlossaries());
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState('');
+  const [draft, setDraft] = useState({ term: '', aliases: '', note: '' });
+  const [message, setMessage] = useState<string | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const importTargetRef = useRef<string | null>(null);
+
+  const update = (next: Glossary[]) => {
+    setGlossaries(next);
+    saveGlossaries(next);
+  };
+
+  const updateGlossary = (id: string, patch: (g: Glossary) => Partial<Glossary>) => {
+    update(glossaries.map(g => g.id === id ? { ...g, ...patch(g), updatedAt: Date.now() } : g));
+  };
+
+  const toggleSelected = (id: string) => {
+    onSelectionChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  const handleCreateList = () => {
+    if (!newListName.trim()) return;
+    const created = createGlossary(newListName.trim());
+    update([...glossaries, created]);
+    onSelectionChange([...selectedIds, created.id]);
+    setOpenId(created.id);
+    setNewListName('');
+  };
+
+  const handleDeleteList = (g: Glossary) => {
+    if (!window.confirm(`確定要刪除詞彙表「${g.name}」嗎？`)) return;
+    update(glossaries.filter(x => x.id !== g.id));
+    onSelectionChange(selectedIds.filter(id => id !== g.id));
+  };
+
+  const handleAddTerm = (id: string) => {
+    if (!draft.term.trim()) return;
+    const term = createTerm(draft.term, splitAliases(draft.aliases), draft.note);
+    updateGlossary(id, g => ({ terms: [...g.terms.filter(t => t.term !== term.term), term] }));
+    setDraft({ term: '', aliases: '', note: '' });
+  };
+
+  const startImport = (targetId: string | null) => {
+    importTargetRef.current = targetId;
+    csvInputRef.current?.click();
+  };
+
+  const handleCsvFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const terms = parseGlossaryCsv((event.target?.result as string) || '');
+      if (terms.length === 0) {
+        setMessage("CSV 中找不到有效詞彙 (欄位: 正確寫法, 別名, 備註)");
+        return;
+      }
+      const targetId = importTargetRef.current;
+      if (targetId) {
+        updateGlossary(targetId, g => {
+          const imported = new Set(terms.map(t => t.term));
+          return { terms: [...g.terms.filter(t => !imported.has(t.term)), ...terms] };
+        });
+      } else {
+        const created = createGlossary(file.name.replace(/\.[^/.]+$/, ''), terms);
+        update([...glossaries, created]);
+        onSelectionChange([...selectedIds, created.id]);
+        setOpenId(created.id);
+      }
+      setMessage(`已匯入 ${terms.length} 個詞彙`);
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex items-center gap-2 mb-3 text-indigo-600 dark:text-indigo-400">
+        <BookA size={20} />
+        <h3 className="font-semibold">專有詞彙表</h3>
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+        勾選的詞彙表會加入 AI 指示，並在轉錄後自動將別名修正為正確寫法。
+      </p>
+
+      <input type="file" ref={csvInputRef} className="hidden" accept=".csv,text/csv" onChange={handleCsvFile} />
+
+      <div className="flex flex-col gap-2">
+        {glossaries.map(g => {
+          const isOpen = openId === g.id;
+          return (
+            <div key={g.id} className="bg-slate-50 dark:bg-slate-800 rounded border border-slate-100 dark:border-slate-700">
+              <div className="flex items-center gap-2 px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(g.id)}
+                  onChange={() => toggleSelected(g.id)}
+                  disabled={disabled}
+                  className="w-3.5 h-3.5 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <button onClick={() => setOpenId(isOpen ? null : g.id)} className="flex-1 min-w-0 flex items-center justify-between text-left">
+                  <span className="text-xs font-medium text-slate-700 dark:text-slate-300 truncate">{g.name}</span>
+                  <span className="flex items-center gap-1 text-[10px] text-slate-400 shrink-0">
+                    {g.terms.length} 個
+                    {isOpen ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+                  </span>
+                </button>
+              </div>
+
+              {isOpen && (
+                <div className="px-3 pb-3 flex flex-col gap-2 border-t border-slate-100 dark:border-slate-700 pt-2">
+                  <div className="flex flex-col gap-1 max-h-[180px] overflow-y-auto scrollbar-thin">
+                    {g.terms.length === 0 && <span className="text-[10px] text-slate-400">尚無詞彙</span>}
+                    {g.terms.map(t => (
+                      <div key={t.id} className="flex items-start gap-1 text-[11px] text-slate-600 dark:text-slate-300 group">
+                        <div className="flex-1 min-w-0">
+                          <span className="font-medium">{t.term}</span>
+                          {t.aliases.length > 0 && <span className="text-slate-400"> ← {t.aliases.join('、')}</span>}
+                          {t.note && <div className="text-[10px] text-slate-400 truncate" title={t.note}>{t.note}</div>}
+                        </div>
+                        <button
+                          onClick={() => updateGlossary(g.id, x => ({ terms: x.terms.filter(y => y.id !== t.id) }))}
+                          className="p-0.5 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="刪除詞彙"
+                        >
+                          <X size={12} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex flex-col gap-1">
+                    <input className={inputClass} placeholder="正確寫法 (例如: 陳大文)" value={draft.term} onChange={e => setDraft({ ...draft, term: e.target.value })} />
+                    <input className={inputClass} placeholder="常見錯寫 / 別名，以 | 分隔" value={draft.aliases} onChange={e => setDraft({ ...draft, aliases: e.target.value })} />
+                    <input className={inputClass} placeholder="備註 (選填)" value={draft.note} onChange={e => setDraft({ ...draft, note: e.target.value })} onKeyDown={e => e.key === 'Enter' && handleAddTerm(g.id)} />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={() => handleAddTerm(g.id)} disabled={!draft.term.trim()} variant="secondary" className="flex-1 text-xs h-7 px-2 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600">
+                      <Plus size={12} /> 加入
+                    </Button>
+                    <Button onClick={() => startImport(g.id)} variant="secondary" className="text-xs h-7 px-2 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600" title="從 CSV 匯入到此詞彙表">
+                      <Upload size={12} />
+                    </Button>
+                    <Button onClick={() => handleDeleteList(g)} variant="ghost" className="text-xs h-7 px-2 text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20" title="刪除詞彙表">
+                      <Trash2 size={12} />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="flex gap-2">
+          <input
+            className={inputClass}
+            placeholder="新詞彙表名稱"
+            value={newListName}
+            onChange={e => setNewListName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleCreateList()}
+          />
+          <Button onClick={handleCreateList} disabled={!newListName.trim()} variant="secondary" className="text-xs h-7 px-2 shrink-0 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600">
+            <Plus size={12} />
+          </Button>
+          <Button onClick={() => startImport(null)} variant="secondary" className="text-xs h-7 px-2 shrink-0 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600" title="從 CSV 建立詞彙表">
+            <Upload size={12} />
+          </Button>
+        </div>
+
+        {onApplyToTranscript && selectedIds.length > 0 && (
+          <Button onClick={onApplyToTranscript} disabled={disabled} variant="ghost" className="w-full text-xs h-8 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20">
+            <Wand2 size={14} /> 修正目前轉錄中的錯寫
+          </Button>
+        )}
+
+        {message && <p className="text-[10px] text-slate-400">{message}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ScrollText, ChevronDown, ChevronUp, CheckCircle2, AlertCircle } from 'lucide-react';
+import { JobLogEntry } from '../types';
+
+interface JobLogPanelProps {
+  entries: JobLogEntry[];
+}
+
+const ERROR_TYPE_LABELS: Record<NonNullable<JobLogEntry['errorType']>, string> = {
+  network: '網絡',
+  quota: '配額',
+  auth: '權限',
+  safety: '安全過濾',
+  timeout: '逾時',
+  general: '一般',
+  limit: '限制',
+};
+
+const JobLogPanel: React.FC<JobLogPanelProps> = ({ entries }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (entries.length === 0) return null;
+
+  const failures = entries.filter(e => e.outcome === 'error').length;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between text-slate-800 dark:text-slate-100">
+        <span className="flex items-center gap-2">
+          <ScrollText size={16} className="text-slate-500 dark:text-slate-400" />
+          <span className="font-semibold text-sm">工作記錄</span>
+          <span className="text-xs text-slate-400 font-normal">
+            {entries.length} 次請求{failures > 0 && <span className="text-red-500">，{failures} 次失敗</span>}
+          </span>
+        </span>
+        {isOpen ? <ChevronUp size={14} className="text-slate-400" /> : <ChevronDown size={14} className="text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 flex flex-col gap-1.5 max-h-[200px] overflow-y-auto scrollbar-thin">
+          {entries.slice().reverse().map((entry, idx) => (
+            <div key={idx} className="text-[11px] leading-snug text-slate-600 dark:text-slate-300 flex gap-2" title={entry.message}>
+              {entry.outcome === 'success'
+                ? <CheckCircle2 size={12} className="text-green-500 shrink-0 mt-0.5" />
+                : <AlertCircle size={12} className="text-red-500 shrink-0 mt-0.5" />}
+              <div className="min-w-0">
+                <div>
+                  <span className="font-mono text-slate-400">{new Date(entry.time).toLocaleTimeString()}</span>
+                  {entry.chunkIndex !== undefined && <span className="ml-1">片段 {entry.chunkIndex + 1}</span>}
+                  <span className="ml-1 font-medium">{entry.model}</span>
+                  <span className="ml-1 text-slate-400">#{entry.attempt}</span>
+                </div>
+                {entry.outcome === 'error' && (
+                  <div className="text-red-500 truncate">
+                    {entry.errorType ? ERROR_TYPE_LABELS[entry.errorType] : '錯誤'}
+                    {entry.status !== undefined && ` (${entry.status})`}
+                    {entry.waitMs !== undefined && <span className="text-amber-600 dark:text-amber-400"> · 等待 {(entry.waitMs / 1000).toFixed(1)} 秒後重試</span>}
+                    {entry.message && <span className="text-slate-400"> · {entry.message}</span>}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobLogPanel;
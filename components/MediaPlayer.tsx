@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Rewind, Repeat, Gauge } from 'lucide-react';
+import { formatSecondsToTime } from '../utils/time';
+
+interface MediaPlayerProps {
+  file: File;
+  mediaRef: React.RefObject<HTMLMediaElement>;
+  onTimeUpdate: (time: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  loopRange: { start: number; end: number } | null; // Segment under the playhead
+}
+
+const SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const SKIP_BACK_SECONDS = 5;
+
+const MediaPlayer: React.FC<MediaPlayerProps> = ({ file, mediaRef, onTimeUpdate, onPlayingChange, loopRange }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [speed, setSpeed] = useState(1);
+  // Captured when looping is switched on, so the loop stays on that segment
+  const [loop, setLoop] = useState<{ start: number; end: number } | null>(null);
+  const isVideo = file.type.startsWith('video');
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    setLoop(null);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  useEffect(() => {
+    if (mediaRef.current) mediaRef.current.playbackRate = speed;
+  }, [speed, url]);
+
+  const handleTimeUpdate = () => {
+    const media = mediaRef.current;
+    if (!media) return;
+    if (loop) {
+      const t = media.currentTime;
+      // Seeking well outside the loop (e.g. clicking another row) ends it
+      if (t < loop.start - 1 || t > loop.end + 1) setLoop(null);
+      else if (t >= loop.end) media.currentTime = loop.start;
+    }
+    onTimeUpdate(media.currentTime);
+  };
+
+  const skipBack = () => {
+    const media = mediaRef.current;
+    if (media) media.currentTime = Math.max(0, media.currentTime - SKIP_BACK_SECONDS);
+  };
+
+  const toggleLoop = () => {
+    setLoop(loop ? null : loopRange);
+  };
+
+  const mediaProps = {
+    src: url || undefined,
+    controls: true,
+    onTimeUpdate: handleTimeUpdate,
+    onSeeked: () => onTimeUpdate(mediaRef.current?.currentTime || 0),
+    onPlay: () => onPlayingChange(true),
+    onPause: () => onPlayingChange(false),
+    onEnded: () => onPlayingChange(false),
+  };
+
+  return (
+    <div className="px-3 py-2 border-b border-slate-100 dark:border-slate-800 bg-slate-50/60 dark:bg-slate-800/30 flex flex-col gap-2 shrink-0">
+      {isVideo ? (
+        <video ref={mediaRef as React.RefObject<HTMLVideoElement>} {...mediaProps} className="w-full max-h-48 rounded bg-black" />
+      ) : (
+        <audio ref={mediaRef as React.RefObject<HTMLAudioElement>} {...mediaProps} className="w-full h-9" />
+      )}
+
+      <div className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+        <button
+          onClick={skipBack}
+          className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+          title={`倒退 ${SKIP_BACK_SECONDS} 秒`}
+        >
+          <Rewind size={14} /> {SKIP_BACK_SECONDS}s
+        </button>
+
+        <button
+          onClick={toggleLoop}
+          disabled={!loop && !loopRange}
+          className={`flex items-center gap-1 px-2 py-1 rounded transition-colors disabled:opacity-40 ${loop ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+          title="循環播放目前段落"
+        >
+          <Repeat size={14} />
+          {loop ? `${formatSecondsToTime(loop.start)} - ${formatSecondsToTime(loop.end)}` : '循環段落'}
+        </button>
+
+        <label className="flex items-center gap-1 ml-auto" title="播放速度">
+          <Gauge size={14} />
+          <select
+            value={speed}
+            onChange={e => setSpeed(Number(e.target.value))}
+            className="bg-transparent border border-slate-200 dark:border-slate-700 rounded px-1 py-0.5 outline-none dark:bg-slate-800"
+          >
+            {SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default MediaPlayer;
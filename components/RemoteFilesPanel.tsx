@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Cloud, RefreshCw, Trash2, Loader2, AlertCircle, Database } from 'lucide-react';
+import Button from './Button';
+import { RemoteFileInfo } from '../types';
+import { listGeminiFiles, deleteGeminiFile } from '../services/geminiService';
+import { getCachedFiles } from '../services/fileCache';
+
+const formatExpiry = (iso?: string) => {
+  if (!iso) return '';
+  const hours = (new Date(iso).getTime() - Date.now()) / 3600000;
+  if (hours <= 0) return '已過期';
+  return hours < 1 ? `${Math.round(hours * 60)} 分鐘後過期` : `${Math.round(hours)} 小時後過期`;
+};
+
+// Files uploaded to the Gemini Files API (kept up to 48 hours), with manual cleanup
+const RemoteFilesPanel: React.FC = () => {
+  const [files, setFiles] = useState<RemoteFileInfo[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const cachedNames = new Set(getCachedFiles().map(e => e.remote.name));
+
+  const refresh = async () => {
+    setIsLoading(true);
+    setErrorMsg(null);
+    try {
+      setFiles(await listGeminiFiles());
+    } catch (e: any) {
+      setErrorMsg(e?.message || "無法讀取雲端檔案列表");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    setDeleting(name);
+    setErrorMsg(null);
+    try {
+      await deleteGeminiFile(name);
+      setFiles(prev => prev ? prev.filter(f => f.name !== name) : prev);
+    } catch (e: any) {
+      setErrorMsg(e?.message || "刪除失敗");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleDeleteAll = async () => {
+    if (!files || files.length === 0) return;
+    if (!window.confirm(`確定要刪除全部 ${files.length} 個雲端檔案嗎？`)) return;
+    setDeleting('*');
+    setErrorMsg(null);
+    const remaining: RemoteFileInfo[] = [];
+    for (const f of files) {
+      try {
+        await deleteGeminiFile(f.name);
+      } catch (e: any) {
+        remaining.push(f);
+        setErrorMsg(e?.message || "部分檔案刪除失敗");
+      }
+    }
+    setFiles(remaining);
+    setDeleting(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-sky-600 dark:text-sky-400">
+          <Cloud size={20} />
+          <h3 className="font-semibold">雲端暫存檔案</h3>
+        </div>
+        <button onClick={refresh} disabled={isLoading} className="p-1 text-slate-400 hover:text-sky-600 transition-colors" title="重新整理">
+          <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+        大於 20MB 的檔案會上傳至 Gemini 並保留 48 小時。相同內容的檔案再次轉錄時會直接重用，無需重新上傳。
+      </p>
+
+      {files === null ? (
+        <Button onClick={refresh} disabled={isLoading} variant="secondary" className="w-full text-sm dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600 dark:hover:bg-slate-600">
+          {isLoading ? <Loader2 className="animate-spin" size={16} /> : <Cloud size={16} />}
+          查看雲端檔案
+        </Button>
+      ) : files.length === 0 ? (
+        <p className="text-xs text-slate-400 text-center py-2">沒有雲端檔案</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-col gap-1.5 max-h-[240px] overflow-y-auto scrollbar-thin">
+            {files.map(f => (
+              <div key={f.name} className="flex items-center gap-2 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded border border-slate-100 dark:border-slate-700">
+                <div className="min-w-0 flex-1">
+                  <div className="text-xs text-slate-700 dark:text-slate-300 truncate flex items-center gap-1" title={f.displayName || f.name}>
+                    {cachedNames.has(f.name) && <span title="已快取，可重用"><Database size={10} className="text-green-500 shrink-0" /></span>}
+                    {f.displayName || f.name}
+                  </div>
+                  <div className="text-[10px] text-slate-400">
+                    {f.sizeBytes !== undefined && `${(f.sizeBytes / 1024 / 1024).toFixed(1)} MB · `}
+                    {f.state && f.state !== 'ACTIVE' && `${f.state} · `}
+                    {formatExpiry(f.expirationTime)}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDelete(f.name)}
+                  disabled={deleting !== null}
+                  className="p-1 text-slate-400 hover:text-red-500 transition-colors disabled:opacity-50"
+                  title="刪除"
+                >
+                  {deleting === f.name ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+                </button>
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleDeleteAll} disabled={deleting !== null} variant="ghost" className="w-full text-xs h-8 text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20">
+            {deleting === '*' ? <Loader2 className="animate-spin" size={14} /> : <Trash2 size={14} />}
+            全部刪除
+          </Button>
+        </div>
+      )}
+
+      {errorMsg && (
+        <div className="mt-2 text-xs flex items-center gap-2 text-red-600 dark:text-red-400">
+          <AlertCircle size={14} />
+          <span className="truncate flex-1" title={errorMsg}>{errorMsg}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RemoteFilesPanel;
@@ -0,0 +1,73 @@
+import React, { useRef } from 'react';
+import { History, PlayCircle, Trash2, FolderOpen } from 'lucide-react';
+import Button from './Button';
+import { TranscriptionJob } from '../types';
+import { getResumePoint, isSameFile } from '../services/jobStore';
+import { formatSecondsToTime } from '../utils/time';
+
+interface ResumeJobBannerProps {
+  job: TranscriptionJob;
+  currentFile: File | null;
+  onResume: (file: File) => void;
+  onDiscard: () => void;
+}
+
+const ResumeJobBanner: React.FC<ResumeJobBannerProps> = ({ job, currentFile, onResume, onDiscard }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fileMatches = !!currentFile && isSameFile(job.source, currentFile);
+
+  const completed = job.chunks.filter(c => c.status === 'completed').length;
+  const failed = job.chunks.filter(c => c.status === 'error').length;
+  const resumePoint = getResumePoint(job);
+
+  const statusLabel = job.status === 'error' ? '發生錯誤' : job.status === 'completed' ? '部分片段失敗' : '已停止';
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (selected) onResume(selected);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/20 p-4 rounded-xl border border-amber-200 dark:border-amber-800/50 shadow-sm transition-colors">
+      <div className="flex items-center gap-2 mb-2 text-amber-800 dark:text-amber-300">
+        <History size={16} />
+        <h3 className="font-semibold text-sm">未完成的轉錄工作 ({statusLabel})</h3>
+      </div>
+
+      <p className="text-xs text-slate-600 dark:text-slate-300 truncate" title={job.source.name}>
+        檔案: <span className="font-medium">{job.source.name}</span>
+      </p>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        {job.chunked
+          ? <>已完成 {completed}/{job.chunks.length} 段{failed > 0 && <span className="text-red-500">，{failed} 段失敗</span>}</>
+          : <>已轉錄至 <span className="font-mono">{formatSecondsToTime(resumePoint)}</span>{job.duration > 0 && <> / <span className="font-mono">{formatSecondsToTime(job.duration)}</span></>}</>}
+      </p>
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept="audio/*,video/*"
+        onChange={handleFileChange}
+      />
+
+      <div className="flex gap-2 mt-3">
+        {fileMatches ? (
+          <Button onClick={() => currentFile && onResume(currentFile)} className="flex-1 text-xs h-8 px-2">
+            <PlayCircle size={14} /> 繼續轉錄 (由 {formatSecondsToTime(resumePoint)} 開始)
+          </Button>
+        ) : (
+          <Button onClick={() => fileInputRef.current?.click()} variant="secondary" className="flex-1 text-xs h-8 px-2 dark:bg-slate-800 dark:text-slate-200 dark:border-slate-700">
+            <FolderOpen size={14} /> 選擇原始檔案以繼續
+          </Button>
+        )}
+        <Button onClick={onDiscard} variant="ghost" className="text-xs h-8 px-2 text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20" title="捨棄工作">
+          <Trash2 size={14} />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeJobBanner;
@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Clock, X, MoveHorizontal, Ruler } from 'lucide-react';
+import Button from './Button';
+import { TranscriptDocument } from '../types';
+import { TranscriptOperation, ApplyOptions } from '../hooks/useTranscriptStore';
+import { getTranscriptParts, getTimeSpan, shiftSegments, rescaleSegments } from '../services/retime';
+import { parseTimeToSeconds, formatSecondsToTime, TIME_PATTERN } from '../utils/time';
+
+interface RetimePanelProps {
+  document: TranscriptDocument;
+  selectedIds: Set<string>;
+  onApply?: (op: TranscriptOperation, options?: ApplyOptions) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+const inputClass = "px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 rounded focus:ring-2 focus:ring-blue-500 outline-none";
+
+// Scope value: 'selection', 'all' or 'part:<separator id>'
+const RetimePanel: React.FC<RetimePanelProps> = ({ document: transcriptDoc, selectedIds, onApply, onClose, disabled }) => {
+  const [scope, setScope] = useState(selectedIds.size > 0 ? 'selection' : 'all');
+  const [shift, setShift] = useState('');
+  const [anchors, setAnchors] = useState({ fromA: '', toA: '', fromB: '', toB: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const parts = useMemo(() => getTranscriptParts(transcriptDoc), [transcriptDoc]);
+
+  const scopeIds = useMemo(() => {
+    if (scope === 'selection') return Array.from(selectedIds);
+    if (scope.startsWith('part:')) return parts.find(p => `part:${p.key}` === scope)?.segmentIds || [];
+    return parts.flatMap(p => p.segmentIds);
+  }, [scope, selectedIds, parts]);
+
+  const span = useMemo(() => getTimeSpan(transcriptDoc, scopeIds), [transcriptDoc, scopeIds]);
+
+  // Default the rescale anchors to the span of the scope
+  useEffect(() => {
+    if (!span) return;
+    const a = formatSecondsToTime(span[0]);
+    const b = formatSecondsToTime(span[1]);
+    setAnchors({ fromA: a, toA: a, fromB: b, toB: b });
+  }, [scope, span?.[0], span?.[1]]);
+
+  const handleShift = () => {
+    const delta = Number(shift);
+    // Stored times are whole seconds, so only whole-second shifts are possible
+    if (!onApply || !shift.trim() || !Number.isInteger(delta) || delta === 0) {
+      setError("請輸入要位移的整數秒數 (例如 -2 或 3)");
+      return;
+    }
+    setError(null);
+    const ids = scopeIds;
+    onApply(doc => shiftSegments(doc, ids, delta));
+  };
+
+  const handleRescale = () => {
+    if (!onApply) return;
+    const values = [anchors.fromA, anchors.toA, anchors.fromB, anchors.toB].map(v => v.trim());
+    if (values.some(v => !TIME_PATTERN.test(v))) {
+      setError("時間格式應為 MM:SS 或 HH:MM:SS");
+      return;
+    }
+    const [fromA, toA, fromB, toB] = values.map(parseTimeToSeconds);
+    if (fromA === fromB) {
+      setError("兩個參考點的原始時間不可相同");
+      return;
+    }
+    setError(null);
+    const ids = scopeIds;
+    onApply(doc => rescaleSegments(doc, ids, [fromA, fromB], [toA, toB]));
+  };
+
+  const anchorInput = (key: keyof typeof anchors) => (
+    <input
+      className={`${inputClass} w-20 font-mono`}
+      value={anchors[key]}
+      onChange={e => setAnchors({ ...anchors, [key]: e.target.value })}
+    />
+  );
+
+  return (
+    <div className="px-3 py-2 border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 flex flex-col gap-2 shrink-0 text-xs text-slate-600 dark:text-slate-300">
+      <div className="flex items-center gap-2 text-slate-700 dark:text-slate-300 font-semibold">
+        <Clock size={14} className="text-blue-600 dark:text-blue-400" />
+        時間校正
+        <span className="font-normal text-slate-400">(以顯示時間計算，自動換算回各檔案部分)</span>
+        <button onClick={onClose} className="ml-auto p-1 rounded text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700" title="關閉">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <span>範圍:</span>
+        <select value={scope} onChange={e => setScope(e.target.value)} className={inputClass}>
+          <option value="selection" disabled={selectedIds.size === 0}>已選取的行 ({selectedIds.size})</option>
+          <option value="all">全部</option>
+          {parts.length > 1 && parts.map(p => (
+            <option key={p.key} value={`part:${p.key}`}>{p.label} ({p.segmentIds.length} 行)</option>
+          ))}
+        </select>
+        {span && <span className="text-slate-400 font-mono">{formatSecondsToTime(span[0])} - {formatSecondsToTime(span[1])}</span>}
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <MoveHorizontal size={14} className="text-slate-400" />
+        <span>整體位移</span>
+        <input
+          type="number"
+          step="1"
+          className={`${inputClass} w-20`}
+          placeholder="秒"
+          value={shift}
+          onChange={e => setShift(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleShift()}
+        />
+        <span className="text-slate-400">秒 (負數為提前)</span>
+        <Button variant="secondary" onClick={handleShift} disabled={disabled || scopeIds.length === 0} className="text-xs h-7 px-2 ml-auto dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600">
+          套用位移
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <Ruler size={14} className="text-slate-400" />
+        <span>線性縮放</span>
+        {anchorInput('fromA')}<span>→</span>{anchorInput('toA')}
+        <span className="text-slate-300 dark:text-slate-600">|</span>
+        {anchorInput('fromB')}<span>→</span>{anchorInput('toB')}
+        <Button variant="secondary" onClick={handleRescale} disabled={disabled || scopeIds.length === 0} className="text-xs h-7 px-2 ml-auto dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600" title="以兩個參考點修正時間漂移">
+          套用縮放
+        </Button>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default RetimePanel;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Circle, CheckCircle2, AlertTriangle, ChevronUp, ChevronDown, ListChecks } from 'lucide-react';
+import Button from './Button';
+import { ReviewState } from '../types';
+import { REVIEW_FLAGS, REVIEW_STATE_LABELS, ReviewProgress, cycleReviewState, getFlagLabel } from '../services/review';
+
+export type ReviewFilter = 'all' | ReviewState;
+
+const selectClass = "px-1 py-0.5 text-[11px] border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded outline-none focus:ring-1 focus:ring-blue-500";
+
+interface ReviewToggleProps {
+  state: ReviewState;
+  flag?: string;
+  disabled?: boolean;
+  onChange: (state: ReviewState, flag?: string) => void;
+}
+
+// Table cell control: click cycles unreviewed -> reviewed -> needs attention
+export const ReviewToggle: React.FC<ReviewToggleProps> = ({ state, flag, disabled, onChange }) => {
+  const icon = state === 'reviewed'
+    ? <CheckCircle2 size={16} className="text-green-600 dark:text-green-400" />
+    : state === 'attention'
+      ? <AlertTriangle size={16} className="text-amber-500" />
+      : <Circle size={16} className="text-slate-300 dark:text-slate-600" />;
+
+  const isCustomFlag = !!flag && !REVIEW_FLAGS.some(f => f.id === flag);
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <button
+        onClick={() => onChange(cycleReviewState(state))}
+        disabled={disabled}
+        className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-50"
+        title={`${REVIEW_STATE_LABELS[state]} (點擊切換)`}
+      >
+        {icon}
+        <span className="hidden xl:inline">{REVIEW_STATE_LABELS[state]}</span>
+      </button>
+      {state === 'attention' && (
+        <select
+          value={flag || ''}
+          onChange={e => onChange('attention', e.target.value)}
+          disabled={disabled}
+          className={`${selectClass} w-full`}
+          title={getFlagLabel(flag) || '原因'}
+        >
+          <option value="">原因…</option>
+          {REVIEW_FLAGS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          {isCustomFlag && <option value={flag}>{flag}</option>}
+        </select>
+      )}
+    </div>
+  );
+};
+
+interface ReviewBarProps {
+  progress: ReviewProgress;
+  filter: ReviewFilter;
+  onFilterChange: (filter: ReviewFilter) => void;
+  onPrevUnreviewed: () => void;
+  onNextUnreviewed: () => void;
+  selectedCount: number;
+  onMarkSelectedReviewed: () => void;
+  disabled?: boolean;
+}
+
+const ReviewBar: React.FC<ReviewBarProps> = ({ progress, filter, onFilterChange, onPrevUnreviewed, onNextUnreviewed, selectedCount, onMarkSelectedReviewed, disabled }) => {
+  const percent = progress.total > 0 ? Math.round((progress.reviewed / progress.total) * 100) : 0;
+  const attentionPercent = progress.total > 0 ? (progress.attention / progress.total) * 100 : 0;
+
+  return (
+    <div className="px-3 py-1.5 border-b border-slate-100 dark:border-slate-800 flex items-center gap-3 shrink-0 text-xs text-slate-600 dark:text-slate-300 flex-wrap">
+      <div className="flex items-center gap-2 flex-1 min-w-[160px]" title={`已審核 ${progress.reviewed} / 需注意 ${progress.attention} / 未審核 ${progress.unreviewed}`}>
+        <ListChecks size={14} className="text-green-600 dark:text-green-400 shrink-0" />
+        <div className="flex-1 h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden flex">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${percent}%` }} />
+          <div className="h-full bg-amber-400 transition-all" style={{ width: `${attentionPercent}%` }} />
+        </div>
+        <span className="tabular-nums shrink-0">{progress.reviewed}/{progress.total} ({percent}%)</span>
+        {progress.attention > 0 && <span className="text-amber-600 dark:text-amber-400 shrink-0">⚠ {progress.attention}</span>}
+      </div>
+
+      <select value={filter} onChange={e => onFilterChange(e.target.value as ReviewFilter)} className={selectClass} title="依審核狀態篩選">
+        <option value="all">全部段落</option>
+        <option value="unreviewed">{REVIEW_STATE_LABELS.unreviewed} ({progress.unreviewed})</option>
+        <option value="reviewed">{REVIEW_STATE_LABELS.reviewed} ({progress.reviewed})</option>
+        <option value="attention">{REVIEW_STATE_LABELS.attention} ({progress.attention})</option>
+      </select>
+
+      <div className="flex items-center">
+        <button onClick={onPrevUnreviewed} disabled={progress.unreviewed === 0} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30" title="上一個未審核">
+          <ChevronUp size={14} />
+        </button>
+        <button onClick={onNextUnreviewed} disabled={progress.unreviewed === 0} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30" title="下一個未審核">
+          <ChevronDown size={14} />
+        </button>
+      </div>
+
+      {selectedCount > 0 && (
+        <Button variant="ghost" onClick={onMarkSelectedReviewed} disabled={disabled} className="text-xs h-6 px-2 text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20">
+          <CheckCircle2 size={12} /> 標記選取為已審核 ({selectedCount})
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ReviewBar;
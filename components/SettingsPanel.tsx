@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Settings2, Plus, Trash2, Clock, Globe, MessageSquarePlus, Check, ChevronDown, ChevronUp, Bot } from 'lucide-react';
-import { TranscriptionSettings, Speaker } from '../types';
+import { Settings2, Plus, Trash2, Clock, Globe, MessageSquarePlus, Check, ChevronDown, ChevronUp, Bot, Server, RefreshCw } from 'lucide-react';
+import { TranscriptionSettings, Speaker, ProviderModel, TranscriptionProviderId, LocalServerConfig } from '../types';
 import { LANGUAGES, AI_MODELS } from '../constants';
+import { getProvider, DEFAULT_LOCAL_SERVER } from '../services/providers';
 
 interface SettingsPanelProps {
   settings: TranscriptionSettings;
@@ -12,8 +13,13 @@ interface SettingsPanelProps {
 const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, disabled }) => {
   const [newSpeakerName, setNewSpeakerName] = useState('');
   const [isLangMenuOpen, setIsLangMenuOpen] = useState(false);
+  const [availableModels, setAvailableModels] = useState<ProviderModel[] | null>(null);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
   const langMenuRef = useRef<HTMLDivElement>(null);
 
+  const provider = settings.provider || 'gemini';
+  const localServer = { ...DEFAULT_LOCAL_SERVER, ...settings.localServer };
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -33,6 +39,23 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, disab
     onChange({ ...settings, enableTimestamps: !settings.enableTimestamps });
   };
 
+  const toggleAutoChunk = () => {
+    onChange({ ...settings, autoChunk: !settings.autoChunk });
+  };
+
+  const handleChunkMinutesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const minutes = parseInt(e.target.value);
+    onChange({ ...settings, chunkMinutes: isNaN(minutes) ? undefined : Math.max(1, Math.min(30, minutes)) });
+  };
+
+  const toggleDeleteRemote = () => {
+    onChange({ ...settings, deleteRemoteAfterJob: !settings.deleteRemoteAfterJob });
+  };
+
+  const toggleOutputMode = () => {
+    onChange({ ...settings, outputMode: settings.outputMode === 'text' ? 'structured' : 'text' });
+  };
+
   // Multi-select Language Handler
   const toggleLanguage = (langId: string) => {
       if (disabled) return;
@@ -65,6 +88,25 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, disab
     onChange({ ...settings, model: e.target.value });
   };
 
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = e.target.value as TranscriptionProviderId;
+    setAvailableModels(null);
+    onChange({ ...settings, provider: next, localServer: next === 'local' ? localServer : settings.localServer });
+  };
+
+  const updateLocalServer = (patch: Partial<LocalServerConfig>) => {
+    onChange({ ...settings, localServer: { ...localServer, ...patch } });
+  };
+
+  const refreshModels = async () => {
+    setIsLoadingModels(true);
+    try {
+      setAvailableModels(await getProvider(settings).listModels(settings));
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
   const addSpeaker = () => {
     if (!newSpeakerName.trim()) return;
     const newSpeaker: Speaker = {
@@ -94,27 +136,112 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, disab
       </div>
 
       <div className="space-y-6">
-        {/* Model Selection (NEW) */}
+        {/* Engine / Provider Selection */}
         <div>
            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 flex items-center gap-2">
-               <Bot size={16} className="text-slate-400" />
-               AI 模型 (Engine)
+               <Server size={16} className="text-slate-400" />
+               轉錄引擎 (Provider)
            </label>
            <select
-             value={settings.model}
-             onChange={handleModelChange}
+             value={provider}
+             onChange={handleProviderChange}
              disabled={disabled}
              className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm text-slate-900 dark:text-slate-100 cursor-pointer"
            >
-             {AI_MODELS.map((model) => (
-               <option key={model.id} value={model.id}>
-                 {model.name}
-               </option>
-             ))}
+             <option value="gemini">Google Gemini (雲端)</option>
+             <option value="local">本地伺服器 (Whisper / OpenAI 相容)</option>
            </select>
-           <p className="text-xs text-slate-400 mt-1">
-             {AI_MODELS.find(m => m.id === settings.model)?.description || '選擇用於轉錄的 Gemini 模型。'}
-           </p>
+           {provider === 'local' && (
+             <p className="text-xs text-slate-400 mt-1">錄音只會傳送至下方指定的伺服器，適合機密內容。本地引擎不支援說話者分辨。</p>
+           )}
+        </div>
+
+        {/* Model Selection (NEW) */}
+        <div>
+           <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 flex items-center gap-2">
+               <Bot size={16} className="text-slate-400" />
+               AI 模型 (Engine)
+               <button
+                 type="button"
+                 onClick={refreshModels}
+                 disabled={disabled || isLoadingModels}
+                 className="ml-auto text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-50"
+                 title="重新載入模型列表"
+               >
+                 <RefreshCw size={14} className={isLoadingModels ? 'animate-spin' : ''} />
+               </button>
+           </label>
+           {provider === 'gemini' ? (
+             <>
+               <select
+                 value={settings.model}
+                 onChange={handleModelChange}
+                 disabled={disabled}
+                 className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm text-slate-900 dark:text-slate-100 cursor-pointer"
+               >
+                 {(availableModels || AI_MODELS).map((model) => (
+                   <option key={model.id} value={model.id}>
+                     {model.name}
+                   </option>
+                 ))}
+               </select>
+               <p className="text-xs text-slate-400 mt-1">
+                 {(availableModels || AI_MODELS).find(m => m.id === settings.model)?.description || '選擇用於轉錄的 Gemini 模型。'}
+               </p>
+             </>
+           ) : (
+             <div className="space-y-2">
+               <input
+                 type="text"
+                 placeholder="http://localhost:8080"
+                 value={localServer.baseUrl}
+                 onChange={(e) => updateLocalServer({ baseUrl: e.target.value })}
+                 disabled={disabled}
+                 className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm font-mono text-slate-900 dark:text-slate-100"
+               />
+               <div className="flex gap-2">
+                 <select
+                   value={localServer.flavor}
+                   onChange={(e) => updateLocalServer({ flavor: e.target.value as LocalServerConfig['flavor'] })}
+                   disabled={disabled}
+                   className="flex-1 px-2 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm text-slate-900 dark:text-slate-100 cursor-pointer"
+                 >
+                   <option value="whispercpp">whisper.cpp (/inference)</option>
+                   <option value="openai">OpenAI 相容 (/v1)</option>
+                 </select>
+                 <input
+                   type="text"
+                   list="local-model-options"
+                   placeholder="模型"
+                   value={localServer.model}
+                   onChange={(e) => updateLocalServer({ model: e.target.value })}
+                   disabled={disabled}
+                   className="w-32 px-2 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm font-mono text-slate-900 dark:text-slate-100"
+                 />
+                 <datalist id="local-model-options">
+                   {(availableModels || []).map(m => <option key={m.id} value={m.id} />)}
+                 </datalist>
+               </div>
+               {localServer.flavor === 'openai' && (
+                 <input
+                   type="text"
+                   placeholder="摘要模型 (選填，例如 qwen2.5)"
+                   value={localServer.summaryModel || ''}
+                   onChange={(e) => updateLocalServer({ summaryModel: e.target.value || undefined })}
+                   disabled={disabled}
+                   className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm font-mono text-slate-900 dark:text-slate-100"
+                 />
+               )}
+               <input
+                 type="password"
+                 placeholder="API Key (選填)"
+                 value={localServer.apiKey || ''}
+                 onChange={(e) => updateLocalServer({ apiKey: e.target.value || undefined })}
+                 disabled={disabled}
+                 className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm font-mono text-slate-900 dark:text-slate-100"
+               />
+             </div>
+           )}
         </div>
 
         {/* Language Selection (Multi-Select) */}
@@ -218,6 +345,55 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, disab
               className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 bg-slate-100 dark:bg-slate-700 border-slate-300 dark:border-slate-600"
             />
           </label>
+
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300">結構化輸出 (JSON 模式)</span>
+            <input 
+              type="checkbox" 
+              checked={settings.outputMode !== 'text'}
+              onChange={toggleOutputMode}
+              disabled={disabled}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 bg-slate-100 dark:bg-slate-700 border-slate-300 dark:border-slate-600"
+            />
+          </label>
+          <p className="text-xs text-slate-400 -mt-1">AI 以固定欄位 (時間/說話者/內容) 回傳，格式更穩定。關閉後使用純文字模式。</p>
+
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300">長檔案自動分段轉錄</span>
+            <input 
+              type="checkbox" 
+              checked={!!settings.autoChunk}
+              onChange={toggleAutoChunk}
+              disabled={disabled}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 bg-slate-100 dark:bg-slate-700 border-slate-300 dark:border-slate-600"
+            />
+          </label>
+          {settings.autoChunk && (
+            <div className="flex items-center justify-between gap-2 -mt-1">
+              <span className="text-xs text-slate-400">每段長度 (分鐘)，超過此長度的檔案會自動解碼、分段並合併結果。</span>
+              <input 
+                type="number" 
+                min="1" 
+                max="30"
+                value={settings.chunkMinutes ?? ''}
+                onChange={handleChunkMinutesChange}
+                disabled={disabled}
+                className="w-16 px-2 py-1 text-sm border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+              />
+            </div>
+          )}
+          {settings.provider !== 'local' && (
+            <label className="flex items-center justify-between cursor-pointer">
+              <span className="text-sm font-medium text-slate-700 dark:text-slate-300">完成後刪除雲端檔案</span>
+              <input 
+                type="checkbox" 
+                checked={!!settings.deleteRemoteAfterJob}
+                onChange={toggleDeleteRemote}
+                disabled={disabled}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 bg-slate-100 dark:bg-slate-700 border-slate-300 dark:border-slate-600"
+              />
+            </label>
+          )}
         </div>
 
         {/* Speaker Management */}
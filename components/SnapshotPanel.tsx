@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { History, X, Plus, Trash2, RotateCcw, Pencil, ArrowRight } from 'lucide-react';
+import Button from './Button';
+import { TranscriptBlock, TranscriptDocument, TranscriptSnapshot } from '../types';
+import { addSnapshot, countSegments, createSnapshot, deleteSnapshot, loadSnapshots, renameSnapshot } from '../services/snapshots';
+import { BlockDiff, diffTranscripts } from '../services/transcriptDiff';
+import { getBlockOffsets } from '../services/transcriptDocument';
+import { formatSecondsToTime, parseTimeToSeconds } from '../utils/time';
+
+interface SnapshotPanelProps {
+  document: TranscriptDocument;
+  onRestore?: (doc: TranscriptDocument) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+const CURRENT = 'current'; // Compare against the live transcript
+const MAX_RENDERED_DIFFS = 500;
+
+const selectClass = "px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 rounded outline-none focus:ring-2 focus:ring-blue-500 max-w-[220px]";
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString('zh-HK', { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Absolute start time of a segment, as shown in the table
+const formatBlockTime = (block: TranscriptBlock | undefined, offset: number) =>
+  block?.type === 'segment' ? formatSecondsToTime(parseTimeToSeconds(block.start) + offset) : '';
+
+const DiffRow: React.FC<{ diff: BlockDiff; beforeOffsets: number[]; afterOffsets: number[] }> = ({ diff, beforeOffsets, afterOffsets }) => {
+  const block = diff.after || diff.before!;
+  const time = diff.after
+    ? formatBlockTime(diff.after, afterOffsets[diff.afterIndex])
+    : formatBlockTime(diff.before, beforeOffsets[diff.beforeIndex]);
+  const beforeSpeaker = diff.before?.type === 'segment' ? diff.before.speaker : '';
+  const speaker = block.type === 'segment' ? block.speaker : '';
+  const text = block.type === 'separator' ? block.label : block.text;
+
+  const rowClass = diff.op === 'added'
+    ? 'bg-green-50 dark:bg-green-900/20'
+    : diff.op === 'removed'
+      ? 'bg-red-50 dark:bg-red-900/20'
+      : diff.op === 'changed' ? 'bg-amber-50/60 dark:bg-amber-900/10' : '';
+
+  return (
+    <tr className={`border-b border-slate-100 dark:border-slate-800 align-top ${rowClass}`}>
+      <td className="px-2 py-1.5 w-6 font-mono text-slate-400">
+        {diff.op === 'added' ? '+' : diff.op === 'removed' ? '−' : diff.op === 'changed' ? '~' : ''}
+      </td>
+      <td className={`px-2 py-1.5 w-20 font-mono whitespace-nowrap ${diff.timeChanged ? 'text-amber-600 dark:text-amber-400' : 'text-slate-500 dark:text-slate-400'}`}>
+        {time}
+      </td>
+      <td className="px-2 py-1.5 w-32 text-slate-700 dark:text-slate-300">
+        {diff.speakerChanged ? (
+          <span className="flex items-center gap-1 flex-wrap">
+            <span className="line-through text-red-500">{beforeSpeaker}</span>
+            <ArrowRight size={10} className="text-slate-400" />
+            <span className="text-green-700 dark:text-green-400">{speaker}</span>
+          </span>
+        ) : speaker}
+      </td>
+      <td className={`px-2 py-1.5 whitespace-pre-wrap break-words ${diff.op === 'removed' ? 'line-through text-red-700 dark:text-red-400' : diff.op === 'added' ? 'text-green-800 dark:text-green-300' : 'text-slate-800 dark:text-slate-200'}`}>
+        {diff.parts ? diff.parts.map((part, i) => (
+          <span
+            key={i}
+            className={part.op === 'added'
+              ? 'bg-green-200 dark:bg-green-800/60 text-green-900 dark:text-green-100 rounded-sm'
+              : part.op === 'removed' ? 'bg-red-200 dark:bg-red-800/60 text-red-900 dark:text-red-100 line-through rounded-sm' : ''}
+          >
+            {part.text}
+          </span>
+        )) : text}
+      </td>
+    </tr>
+  );
+};
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ document: transcriptDoc, onRestore, onClose, disabled }) => {
+  const [snapshots, setSnapshots] = useState<TranscriptSnapshot[]>(() => loadSnapshots());
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  // Default: oldest snapshot (usually the raw AI output) against the current transcript
+  const [baseId, setBaseId] = useState<string>(() => snapshots[snapshots.length - 1]?.id || CURRENT);
+  const [targetId, setTargetId] = useState<string>(CURRENT);
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  const resolve = (id: string) => id === CURRENT ? transcriptDoc : snapshots.find(s => s.id === id)?.document;
+  const base = resolve(baseId);
+  const target = resolve(targetId);
+
+  const diff = useMemo(() => base && target ? diffTranscripts(base, target) : null, [base, target]);
+  const beforeOffsets = useMemo(() => base ? getBlockOffsets(base.blocks) : [], [base]);
+  const afterOffsets = useMemo(() => target ? getBlockOffsets(target.blocks) : [], [target]);
+  const visible = diff ? diff.blocks.filter(d => !changesOnly || d.op !== 'equal') : [];
+
+  const handleCreate = () => {
+    const snapshot = createSnapshot(name, transcriptDoc);
+    const next = addSnapshot(snapshot);
+    setSnapshots(next);
+    setName('');
+    setMessage(next[0]?.id === snapshot.id ? null : "儲存空間不足，無法建立快照。");
+  };
+
+  const handleRename = (snapshot: TranscriptSnapshot) => {
+    const value = window.prompt("快照名稱", snapshot.name);
+    if (value && value.trim()) setSnapshots(renameSnapshot(snapshot.id, value));
+  };
+
+  const handleDelete = (snapshot: TranscriptSnapshot) => {
+    if (!window.confirm(`確定要刪除快照「${snapshot.name}」嗎？`)) return;
+    setSnapshots(deleteSnapshot(snapshot.id));
+    if (baseId === snapshot.id) setBaseId(CURRENT);
+    if (targetId === snapshot.id) setTargetId(CURRENT);
+  };
+
+  const handleRestore = (snapshot: TranscriptSnapshot) => {
+    if (!onRestore || !window.confirm(`確定要還原至「${snapshot.name}」嗎？目前內容會先另存為快照。`)) return;
+    setSnapshots(addSnapshot(createSnapshot(`還原前備份 (${formatDate(Date.now())})`, transcriptDoc, 'backup')));
+    onRestore({ ...snapshot.document, updatedAt: Date.now() });
+    setMessage(`已還原至「${snapshot.name}」。`);
+  };
+
+  const renderOptions = () => (
+    <>
+      <option value={CURRENT}>目前內容</option>
+      {snapshots.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full max-w-6xl h-[85vh] overflow-hidden flex flex-col border border-slate-200 dark:border-slate-700">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100 dark:border-slate-700">
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <History size={20} className="text-blue-600 dark:text-blue-400" /> 版本快照與比較
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex text-xs">
+          {/* Snapshot list */}
+          <aside className="w-72 shrink-0 border-r border-slate-100 dark:border-slate-800 flex flex-col min-h-0 bg-slate-50 dark:bg-slate-800/40">
+            <div className="p-3 border-b border-slate-100 dark:border-slate-800 flex gap-2">
+              <input
+                className="flex-1 min-w-0 px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="快照名稱 (例如: 客戶校對前)"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleCreate()}
+              />
+              <Button variant="secondary" onClick={handleCreate} disabled={transcriptDoc.blocks.length === 0} className="text-xs h-7 px-2 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600">
+                <Plus size={12} /> 建立
+              </Button>
+            </div>
+            {message && <p className="px-3 py-2 text-amber-700 dark:text-amber-400 border-b border-slate-100 dark:border-slate-800">{message}</p>}
+            <div className="flex-1 overflow-y-auto scrollbar-thin p-2 flex flex-col gap-1.5">
+              {snapshots.length === 0 && <p className="text-slate-400 p-1">尚無快照。轉錄完成時會自動建立一個。</p>}
+              {snapshots.map(s => (
+                <div key={s.id} className={`rounded border p-2 bg-white dark:bg-slate-900 ${s.id === baseId || s.id === targetId ? 'border-blue-300 dark:border-blue-700' : 'border-slate-200 dark:border-slate-700'}`}>
+                  <div className="flex items-center gap-1">
+                    <span className="font-semibold text-slate-700 dark:text-slate-200 truncate" title={s.name}>{s.name}</span>
+                    {s.kind && <span className="shrink-0 px-1 rounded bg-slate-100 dark:bg-slate-700 text-[10px] text-slate-500 dark:text-slate-400">{s.kind === 'backup' ? '備份' : '自動'}</span>}
+                  </div>
+                  <div className="text-[10px] text-slate-400">{formatDate(s.createdAt)} · {countSegments(s.document)} 段</div>
+                  <div className="flex items-center gap-1 mt-1">
+                    <button onClick={() => setBaseId(s.id)} className="px-1.5 py-0.5 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700">設為基準</button>
+                    <button onClick={() => setTargetId(s.id)} className="px-1.5 py-0.5 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700">設為比較</button>
+                    <button onClick={() => handleRename(s)} className="ml-auto p-1 rounded text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700" title="重新命名">
+                      <Pencil size={12} />
+                    </button>
+                    <button onClick={() => handleRestore(s)} disabled={disabled || !onRestore} className="p-1 rounded text-slate-400 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40" title="還原此快照">
+                      <RotateCcw size={12} />
+                    </button>
+                    <button onClick={() => handleDelete(s)} className="p-1 rounded text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-700" title="刪除快照">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </aside>
+
+          {/* Diff view */}
+          <section className="flex-1 min-w-0 flex flex-col min-h-0">
+            <div className="px-3 py-2 border-b border-slate-100 dark:border-slate-800 flex items-center gap-2 flex-wrap text-slate-600 dark:text-slate-300">
+              <span>基準</span>
+              <select value={baseId} onChange={e => setBaseId(e.target.value)} className={selectClass}>{renderOptions()}</select>
+              <ArrowRight size={14} className="text-slate-400" />
+              <span>比較</span>
+              <select value={targetId} onChange={e => setTargetId(e.target.value)} className={selectClass}>{renderOptions()}</select>
+              {diff && (
+                <span className="flex items-center gap-2 ml-2">
+                  <span className="text-green-700 dark:text-green-400">+{diff.added}</span>
+                  <span className="text-red-600 dark:text-red-400">−{diff.removed}</span>
+                  <span className="text-amber-600 dark:text-amber-400">~{diff.changed}</span>
+                </span>
+              )}
+              <label className="flex items-center gap-1 ml-auto cursor-pointer">
+                <input type="checkbox" checked={changesOnly} onChange={e => setChangesOnly(e.target.checked)} className="w-3 h-3" />
+                只顯示變更
+              </label>
+            </div>
+
+            <div className="flex-1 overflow-y-auto scrollbar-thin">
+              {baseId === targetId ? (
+                <p className="p-4 text-slate-400">請選擇兩個不同的版本進行比較。</p>
+              ) : visible.length === 0 ? (
+                <p className="p-4 text-slate-400">兩個版本內容相同。</p>
+              ) : (
+                <table className="w-full text-left">
+                  <tbody>
+                    {visible.slice(0, MAX_RENDERED_DIFFS).map((d, i) => (
+                      <DiffRow key={`${d.before?.id || ''}:${d.after?.id || ''}:${i}`} diff={d} beforeOffsets={beforeOffsets} afterOffsets={afterOffsets} />
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {visible.length > MAX_RENDERED_DIFFS && (
+                <p className="p-3 text-slate-400">另有 {visible.length - MAX_RENDERED_DIFFS} 項未顯示。</p>
+              )}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotPanel;
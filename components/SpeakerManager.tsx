@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { Users, X, Pencil, Check, UserCheck } from 'lucide-react';
+import { Speaker, TranscriptDocument } from '../types';
+import { TranscriptOperation, ApplyOptions } from '../hooks/useTranscriptStore';
+import { getSpeakerStats, getSpeakerColor, getSpeakerInitials, mapSpeakerName, renameSpeaker, reassignSpeaker } from '../services/speakers';
+
+interface SpeakerManagerProps {
+  document: TranscriptDocument;
+  speakers?: Speaker[]; // Configured ID -> name mapping, applied for display
+  selectedIds: Set<string>;
+  onApply?: (op: TranscriptOperation, options?: ApplyOptions) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+const inputClass = "px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 rounded focus:ring-2 focus:ring-blue-500 outline-none";
+
+export const SpeakerBadge: React.FC<{ name: string; className?: string }> = ({ name, className }) => (
+  <span
+    className={`inline-flex items-center justify-center w-6 h-6 rounded-full text-[10px] font-bold shrink-0 ${getSpeakerColor(name).badge} ${className || ''}`}
+    title={name || '(無說話者)'}
+  >
+    {getSpeakerInitials(name)}
+  </span>
+);
+
+const SpeakerManager: React.FC<SpeakerManagerProps> = ({ document: transcriptDoc, speakers, selectedIds, onApply, onClose, disabled }) => {
+  const [editing, setEditing] = useState<{ label: string; value: string } | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const stats = useMemo(() => getSpeakerStats(transcriptDoc), [transcriptDoc]);
+  const labels = stats.map(s => s.label);
+
+  const selectedSegmentIds = useMemo(
+    () => transcriptDoc.blocks.filter(b => b.type === 'segment' && selectedIds.has(b.id)).map(b => b.id),
+    [transcriptDoc, selectedIds]
+  );
+
+  const handleRename = () => {
+    if (!onApply || !editing) return;
+    const to = editing.value.trim();
+    if (to === editing.label) {
+      setEditing(null);
+      return;
+    }
+    if (labels.includes(to) && !window.confirm(`「${to}」已存在，要將「${editing.label || '(無)'}」合併到「${to}」嗎？`)) {
+      return;
+    }
+    const from = editing.label;
+    onApply(doc => renameSpeaker(doc, from, to));
+    setEditing(null);
+  };
+
+  const handleMerge = (from: string, into: string) => {
+    if (!onApply || !into) return;
+    if (!window.confirm(`將「${from || '(無)'}」的所有段落合併到「${into}」？`)) return;
+    onApply(doc => renameSpeaker(doc, from, into));
+  };
+
+  const handleReassign = (to: string) => {
+    if (!onApply || selectedSegmentIds.length === 0) return;
+    const ids = selectedSegmentIds;
+    onApply(doc => reassignSpeaker(doc, ids, to));
+  };
+
+  return (
+    <div className="px-3 py-2 border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 flex flex-col gap-2 shrink-0 text-xs max-h-72 overflow-y-auto scrollbar-thin">
+      <div className="flex items-center gap-2 text-slate-700 dark:text-slate-300 font-semibold">
+        <Users size={14} className="text-blue-600 dark:text-blue-400" />
+        說話者管理
+        <span className="font-normal text-slate-400">({stats.length})</span>
+        <button onClick={onClose} className="ml-auto p-1 rounded text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700" title="關閉">
+          <X size={14} />
+        </button>
+      </div>
+
+      {stats.length === 0 && <p className="text-slate-400">轉錄中尚無說話者。</p>}
+
+      {stats.map(({ label, count }) => {
+        const name = mapSpeakerName(label, speakers);
+        const isEditing = editing?.label === label;
+        return (
+          <div key={label} className="flex items-center gap-2">
+            <SpeakerBadge name={name} />
+
+            {isEditing ? (
+              <input
+                autoFocus
+                className={`${inputClass} flex-1 min-w-0`}
+                value={editing.value}
+                onChange={e => setEditing({ label, value: e.target.value })}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+              />
+            ) : (
+              <span className={`flex-1 min-w-0 truncate font-medium ${getSpeakerColor(name).text}`} title={name !== label ? `原始標籤: ${label}` : undefined}>
+                {name || '(無說話者)'}
+                {name !== label && <span className="ml-1 font-normal text-slate-400">({label})</span>}
+              </span>
+            )}
+
+            <span className="text-slate-400 tabular-nums shrink-0">{count} 行</span>
+
+            {isEditing ? (
+              <button onClick={handleRename} disabled={disabled} className="p-1 rounded text-green-600 hover:bg-slate-200 dark:hover:bg-slate-700" title="套用">
+                <Check size={14} />
+              </button>
+            ) : (
+              <button onClick={() => setEditing({ label, value: label })} disabled={disabled || !onApply} className="p-1 rounded text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40" title="重新命名 (所有段落)">
+                <Pencil size={14} />
+              </button>
+            )}
+
+            <select
+              value=""
+              onChange={e => handleMerge(label, e.target.value)}
+              disabled={disabled || !onApply || labels.length < 2}
+              className={`${inputClass} w-24 shrink-0`}
+              title="合併到其他說話者"
+            >
+              <option value="">合併到…</option>
+              {labels.filter(l => l !== label).map(l => (
+                <option key={l} value={l}>{mapSpeakerName(l, speakers) || '(無說話者)'}</option>
+              ))}
+            </select>
+
+            <button
+              onClick={() => handleReassign(label)}
+              disabled={disabled || !onApply || selectedSegmentIds.length === 0}
+              className="p-1 rounded text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30"
+              title={`將選取的 ${selectedSegmentIds.length} 行指派給此說話者`}
+            >
+              <UserCheck size={14} />
+            </button>
+          </div>
+        );
+      })}
+
+      {selectedSegmentIds.length > 0 && (
+        <div className="flex items-center gap-2 pt-1 border-t border-slate-200 dark:border-slate-700">
+          <span className="text-slate-500 dark:text-slate-400 shrink-0">將選取的 {selectedSegmentIds.length} 行指派給新說話者:</span>
+          <input
+            className={`${inputClass} flex-1 min-w-0`}
+            placeholder="說話者名稱"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && newName.trim()) {
+                handleReassign(newName);
+                setNewName('');
+              }
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeakerManager;
@@ -1,14 +1,18 @@
 import React, { useState } from 'react';
 import { Sparkles, Copy, Check, FileText, Loader2, ArrowRight } from 'lucide-react';
 import Button from './Button';
-import { generateSummary } from '../services/geminiService';
+import { getProvider } from '../services/providers';
+import { recordUsage } from '../services/usageLedger';
+import { TranscriptionSettings } from '../types';
 
 interface SummaryPanelProps {
   transcriptionText: string;
+  settings: TranscriptionSettings;
+  summary: string; // Kept by the parent so exports and project files include it
+  onSummaryChange: (summary: string) => void;
 }
 
-const SummaryPanel: React.FC<SummaryPanelProps> = ({ transcriptionText }) => {
-  const [summary, setSummary] = useState('');
+const SummaryPanel: React.FC<SummaryPanelProps> = ({ transcriptionText, settings, summary, onSummaryChange }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
@@ -23,8 +27,9 @@ const SummaryPanel: React.FC<SummaryPanelProps> = ({ transcriptionText }) => {
     setError(null);
 
     try {
-      const result = await generateSummary(transcriptionText);
-      setSummary(result);
+      const result = await getProvider(settings).generateSummary(transcriptionText, settings,
+        (usage) => recordUsage(usage, { kind: 'summary' }));
+      onSummaryChange(result);
     } catch (err: any) {
       setError(err.message || "生成摘要失敗");
     } finally {
@@ -1,142 +1,228 @@
-import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { Copy, Download, FileText, Check, FileSpreadsheet, Trash2, Table as TableIcon, AlignLeft, CheckSquare, Square, Sparkles, ArrowRight, Upload, Captions } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState, useMemo } from 'react';
+import { Copy, Download, FileText, Check, FileSpreadsheet, Trash2, Table as TableIcon, AlignLeft, CheckSquare, Square, Sparkles, ArrowRight, Upload, Captions, Undo2, Redo2, Play, Search, Scissors, Combine, Users, Clock, FileJson, MessageSquare, History, Palette, FileType, Scale } from 'lucide-react';
 import Button from './Button';
-import { Speaker } from '../types';
+import MediaPlayer from './MediaPlayer';
+import FindReplacePanel from './FindReplacePanel';
+import SpeakerManager, { SpeakerBadge } from './SpeakerManager';
+import RetimePanel from './RetimePanel';
+import ReviewBar, { ReviewToggle, ReviewFilter } from './ReviewControls';
+import CommentsPanel from './CommentsPanel';
+import SnapshotPanel from './SnapshotPanel';
+import CourtExportDialog from './CourtExportDialog';
+import { CommentThread, ExportInfo, ReviewState, Speaker, TranscriptBlock, TranscriptDocument, TranscriptSegmentBlock } from '../types';
+import { parseTimeToSeconds, formatSecondsToTime, formatSecondsToSRTTimestamp, TIME_PATTERN } from '../utils/time';
+import { parseCsvLine, splitCsvLines, csvCell } from '../utils/csv';
+import { parseTranscript, getBlockOffsets, getPlaybackTimeline, findSegmentAt, updateSegment, replaceBlockLine, deleteBlocks, mergeSegments, splitSegment, interpolateSplitTime } from '../services/transcriptDocument';
+import { getSpeakerColor } from '../services/speakers';
+import { buildDocx, DocxOptions, loadDocxOptions, saveDocxOptions } from '../services/docx';
+import { CaptionImport, buildWebVTT, getCueTimes, parseSRT, parseWebVTT, loadVttSpeakerClasses, saveVttSpeakerClasses } from '../services/captions';
+import { getTimeSpan, setSegmentTimes } from '../services/retime';
+import { getReviewProgress, setReviewState, getFlagLabel, parseReviewState, parseFlag, REVIEW_STATE_LABELS } from '../services/review';
+import { CommentExportMode, loadCommentExportMode, saveCommentExportMode, formatThreadForExport, countOpenThreads, buildCommentFootnotes, findFootnoteRows, FOOTNOTE_MARKERS_REGEX } from '../services/comments';
+import { TranscriptOperation, ApplyOptions } from '../hooks/useTranscriptStore';
+import { useVirtualRows } from '../hooks/useVirtualRows';
 
 interface TranscriptionViewProps {
   text: string;
+  document: TranscriptDocument;
   status: string;
   speakers?: Speaker[]; // Added speakers prop for mapping
   onClear: () => void;
-  onUpdate?: (newText: string) => void;
+  onUpdate?: (newText: string) => void; // Replaces the whole transcript (CSV import)
+  onApply?: (op: TranscriptOperation, options?: ApplyOptions) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   onSwitchToSummary?: () => void;
+  mediaFile?: File | null; // Selected source file, played back in sync with the table
+  summary?: string; // Generated summary, appended to document exports
+  exportInfo?: ExportInfo;
+  onExportProject?: () => void; // Full session as a JSON project file
+  onImportProject?: (json: string) => void;
   className?: string;
 }
 
+// Consecutive keystrokes in one field within this window form a single undo step
+const TYPING_COALESCE_MS = 1000;
+
+// Initial row heights (px) for the virtualized table, corrected once rows are measured
+const SEGMENT_ROW_ESTIMATE = 56;
+const SEPARATOR_ROW_ESTIMATE = 34;
+const TABLE_HEADER_HEIGHT = 33;
+
 interface RowData {
-    id: number;
+    id: string; // Block ID in the transcript document
     type: 'segment' | 'separator' | 'raw';
     time: string; 
     speaker: string;
     content: string;
     rawLine: string; 
+    review: ReviewState; // Always 'unreviewed' for non-segment rows
+    flag?: string;
+    threads?: CommentThread[];
 }
 
-// Time Helper Functions
-const parseTimeToSeconds = (timeStr: string): number => {
-    if (!timeStr) return 0;
-    const parts = timeStr.split(':').map(Number);
-    if (parts.some(isNaN)) return 0;
-    
-    // HH:MM:SS or MM:SS
-    if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
-    if (parts.length === 2) return parts[0] * 60 + parts[1];
-    return 0;
-};
-
-const formatSecondsToTime = (totalSeconds: number): string => {
-    const h = Math.floor(totalSeconds / 3600);
-    const m = Math.floor((totalSeconds % 3600) / 60);
-    const s = Math.floor(totalSeconds % 60);
+// "MM:SS" or "MM:SS - MM:SS"
+const TIME_RANGE_REGEX = /^\s*(\d{1,2}:\d{2}(?::\d{2})?)\s*(?:-\s*(\d{1,2}:\d{2}(?::\d{2})?)\s*)?$/;
 
-    const mm = m.toString().padStart(2, '0');
-    const ss = s.toString().padStart(2, '0');
+// Time cell that keeps a draft while typing and commits on blur / Enter (invalid input reverts)
+const TimeInput: React.FC<{ value: string; disabled?: boolean; onCommit: (value: string) => void }> = ({ value, disabled, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
 
-    if (h > 0) {
-        return `${h.toString().padStart(2, '0')}:${mm}:${ss}`;
-    }
-    return `${mm}:${ss}`;
-};
-
-const formatSecondsToSRTTimestamp = (totalSeconds: number): string => {
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = Math.floor(totalSeconds % 60);
-    const milliseconds = Math.round((totalSeconds % 1) * 1000);
+  const commit = () => {
+    if (draft !== null && draft.trim() !== value && TIME_RANGE_REGEX.test(draft)) onCommit(draft.trim());
+    setDraft(null);
+  };
 
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')},${milliseconds.toString().padStart(3, '0')}`;
+  return (
+    <input
+      type="text"
+      value={draft ?? value}
+      disabled={disabled}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className={`w-full bg-transparent border border-transparent hover:border-slate-200 dark:hover:border-slate-600 focus:border-blue-300 dark:focus:border-blue-500 focus:bg-white dark:focus:bg-slate-800 rounded px-1 py-0.5 text-xs font-mono outline-none transition-all ${draft !== null && !TIME_RANGE_REGEX.test(draft) ? 'text-red-500' : 'text-slate-500 dark:text-slate-400'}`}
+    />
+  );
 };
 
-const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, speakers, onClear, onUpdate, onSwitchToSummary, className }) => {
+const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, document: transcriptDoc, status, speakers, onClear, onUpdate, onApply, onUndo, onRedo, canUndo, canRedo, onSwitchToSummary, mediaFile, summary, exportInfo, onExportProject, onImportProject, className }) => {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const mediaRef = useRef<HTMLMediaElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showFind, setShowFind] = useState(false);
+  const [showSpeakers, setShowSpeakers] = useState(false);
+  const [showRetime, setShowRetime] = useState(false);
+  const [focusedRowId, setFocusedRowId] = useState<string | null>(null);
+  const caretRef = useRef<{ id: string; at: number } | null>(null); // Last cursor position in a content cell
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [copied, setCopied] = useState(false);
   const [viewMode, setViewMode] = useState<'table' | 'text'>('table');
-  const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('all');
+  const [showComments, setShowComments] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [vttSpeakerClasses, setVttSpeakerClasses] = useState(() => loadVttSpeakerClasses());
+  const [showDocxOptions, setShowDocxOptions] = useState(false);
+  const [showCourtExport, setShowCourtExport] = useState(false);
+  const [pendingSrt, setPendingSrt] = useState<(CaptionImport & { name: string }) | null>(null);
+  const [docxOptions, setDocxOptions] = useState<DocxOptions>(() => loadDocxOptions());
+  const [commentTargetId, setCommentTargetId] = useState<string | null>(null);
+  const [commentExportMode, setCommentExportMode] = useState<CommentExportMode>(() => loadCommentExportMode());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
-  // Parse text into rows and apply timestamp offsets dynamically
+  // Rows are cached per block object: unchanged blocks keep their row, so a streamed
+  // update only builds rows for the new tail. The cache resets when the mapping changes.
+  const rowCache = useRef({ speakers, rows: new WeakMap<TranscriptBlock, { offset: number; row: RowData }>() });
+
+  // Build display rows from the document and apply timestamp offsets dynamically
   // Added 'speakers' to dependency array so it re-calculates when settings change
   const rows: RowData[] = useMemo(() => {
-    const lines = text.split('\n');
-    let currentOffsetSeconds = 0;
+    const offsets = getBlockOffsets(transcriptDoc.blocks);
+    if (rowCache.current.speakers !== speakers) {
+        rowCache.current = { speakers, rows: new WeakMap() };
+    }
+    const cache = rowCache.current.rows;
 
-    return lines.map((line, index) => {
-        const trimmed = line.trim();
-        
-        // 1. Check for Separator
-        const separatorMatch = trimmed.match(/Start:\s*(\d{1,2}:\d{2}(?::\d{2})?)/);
-        if (trimmed.startsWith('--- [') || trimmed.startsWith('--- [接續檔案')) {
-             if (separatorMatch) {
-                 currentOffsetSeconds = parseTimeToSeconds(separatorMatch[1]);
-             }
-             return { id: index, type: 'separator', time: '', speaker: '', content: trimmed.replace(/---/g, '').trim(), rawLine: line };
+    const buildRow = (block: TranscriptBlock, currentOffsetSeconds: number): RowData => {
+        if (block.type === 'separator') {
+             return { id: block.id, type: 'separator', time: '', speaker: '', content: block.label, rawLine: block.raw, review: 'unreviewed' };
         }
 
-        if (!trimmed) {
-            return { id: index, type: 'raw', time: '', speaker: '', content: '', rawLine: line };
+        if (block.type === 'raw') {
+            return { id: block.id, type: 'raw', time: '', speaker: '', content: block.text, rawLine: block.text, review: 'unreviewed' };
         }
 
-        // 2. Check for Timestamped Segment
-        const match = line.match(/^\[(\d{1,2}:\d{2}(?::\d{2})?)(?:\s*-\s*(\d{1,2}:\d{2}(?::\d{2})?))?\]\s*(?:(?:\*\*)?([^*:]+?)(?:\*\*)?:)?\s*(.*)/);
-        
-        if (match) {
-            const rawStartTime = match[1];
-            const rawEndTime = match[2];
-            let speaker = match[3] || '';
-            const content = match[4];
-
-            // --- SPEAKER MAPPING LOGIC (NEW) ---
-            // If the user defined "Speaker 1: Peter", and AI output "Speaker 1", we swap it here.
-            if (speakers && speakers.length > 0) {
-                // Case-insensitive check
-                // Try to find if 'speaker' matches any ID (e.g. "Speaker 1")
-                const mapped = speakers.find(s => s.id.toLowerCase() === speaker.toLowerCase());
-                if (mapped) {
-                    speaker = mapped.name;
-                }
-            }
-            // -----------------------------------
-
-            // Apply Offset
-            const startSec = parseTimeToSeconds(rawStartTime) + currentOffsetSeconds;
-            const newStartTime = formatSecondsToTime(startSec);
-            
-            let newTimeStr = newStartTime;
-            let rawLineTimeStr = `[${newStartTime}]`;
-
-            if (rawEndTime) {
-                const endSec = parseTimeToSeconds(rawEndTime) + currentOffsetSeconds;
-                const newEndTime = formatSecondsToTime(endSec);
-                newTimeStr = `${newStartTime} - ${newEndTime}`;
-                rawLineTimeStr = `[${newStartTime} - ${newEndTime}]`;
-            }
+        let speaker = block.speaker;
+        const content = block.text;
 
-            // Reconstruct the line with MAPPED speaker name
-            const newRawLine = `${rawLineTimeStr} ${speaker ? speaker + ': ' : ''}${content}`;
-
-            return {
-                id: index,
-                type: 'segment',
-                time: newTimeStr,
-                speaker: speaker,
-                content: content,
-                rawLine: newRawLine
-            };
+        // --- SPEAKER MAPPING LOGIC (NEW) ---
+        // If the user defined "Speaker 1: Peter", and AI output "Speaker 1", we swap it here.
+        if (speakers && speakers.length > 0) {
+            // Case-insensitive check
+            // Try to find if 'speaker' matches any ID (e.g. "Speaker 1")
+            const mapped = speakers.find(s => s.id.toLowerCase() === speaker.toLowerCase());
+            if (mapped) {
+                speaker = mapped.name;
+            }
         }
+        // -----------------------------------
+
+        // Apply Offset
+        const startSec = parseTimeToSeconds(block.start) + currentOffsetSeconds;
+        const newStartTime = formatSecondsToTime(startSec);
         
-        return { id: index, type: 'raw', time: '', speaker: '', content: line, rawLine: line };
+        let newTimeStr = newStartTime;
+        let rawLineTimeStr = `[${newStartTime}]`;
+
+        if (block.end) {
+            const endSec = parseTimeToSeconds(block.end) + currentOffsetSeconds;
+            const newEndTime = formatSecondsToTime(endSec);
+            newTimeStr = `${newStartTime} - ${newEndTime}`;
+            rawLineTimeStr = `[${newStartTime} - ${newEndTime}]`;
+        }
+
+        // Reconstruct the line with MAPPED speaker name
+        const newRawLine = `${rawLineTimeStr} ${speaker ? speaker + ': ' : ''}${content}`;
+
+        return {
+            id: block.id,
+            type: 'segment',
+            time: newTimeStr,
+            speaker: speaker,
+            content: content,
+            rawLine: newRawLine,
+            review: block.meta?.review || 'unreviewed',
+            flag: block.meta?.flag,
+            threads: block.meta?.threads
+        };
+    };
+
+    return transcriptDoc.blocks.map((block, index) => {
+        const cached = cache.get(block);
+        if (cached && cached.offset === offsets[index]) return cached.row;
+        const row = buildRow(block, offsets[index]);
+        cache.set(block, { offset: offsets[index], row });
+        return row;
     });
-  }, [text, speakers]);
+  }, [transcriptDoc, speakers]);
+
+  const reviewProgress = useMemo(() => getReviewProgress(transcriptDoc), [transcriptDoc]);
+
+  // Blank lines are not shown in the table; a review filter shows matching segments only
+  const tableRowsData = useMemo(
+    () => rows.filter(row => reviewFilter === 'all'
+      ? row.type !== 'raw' || row.content.trim()
+      : row.type === 'segment' && row.review === reviewFilter),
+    [rows, reviewFilter]
+  );
+  const tableIndexById = useMemo(() => new Map(tableRowsData.map((row, i) => [row.id, i])), [tableRowsData]);
+
+  const getRowKey = useCallback((index: number) => tableRowsData[index].id, [tableRowsData]);
+  const estimateRowSize = useCallback(
+    (index: number) => tableRowsData[index].type === 'separator' ? SEPARATOR_ROW_ESTIMATE : SEGMENT_ROW_ESTIMATE,
+    [tableRowsData]
+  );
+
+  const virtual = useVirtualRows({
+    count: tableRowsData.length,
+    getKey: getRowKey,
+    estimateSize: estimateRowSize,
+    scrollRef,
+    headerHeight: TABLE_HEADER_HEIGHT,
+    enabled: viewMode === 'table' && !!text,
+  });
+
+  const scrollToRow = (id: string, align: 'nearest' | 'center') => {
+    const index = tableIndexById.get(id);
+    if (index !== undefined) virtual.scrollToIndex(index, align);
+  };
 
   // Auto-scroll logic
   useEffect(() => {
@@ -146,8 +232,9 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
   }, [text, status, viewMode]);
 
   // Construct the full text from the Processed Rows
+  const processedText = useMemo(() => rows.map(r => r.rawLine).join('\n'), [rows]);
   const getProcessedText = () => {
-      return rows.map(r => r.rawLine).join('\n');
+      return processedText;
   };
 
   const handleCopy = () => {
@@ -156,8 +243,21 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleCommentExportModeChange = (mode: CommentExportMode) => {
+    setCommentExportMode(mode);
+    saveCommentExportMode(mode);
+  };
+
   const handleDownloadTxt = () => {
-    const blob = new Blob([getProcessedText()], { type: 'text/plain' });
+    let content = getProcessedText();
+    if (commentExportMode === 'footnotes') {
+        const { notes, markers } = buildCommentFootnotes(rows);
+        content = rows.map(r => r.rawLine + (markers.get(r.id) || '')).join('\n');
+        if (notes.length > 0) content += `\n\n--- 註 ---\n${notes.map((n, i) => `[${i + 1}] ${n}`).join('\n')}`;
+    } else if (commentExportMode === 'column') {
+        content = rows.map(r => [r.rawLine, ...(r.threads || []).map(t => `    > ${formatThreadForExport(t)}`)].join('\n')).join('\n');
+    }
+    const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -166,26 +266,31 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
   };
 
   const handleDownloadCSV = () => {
-    let csvContent = "data:text/csv;charset=utf-8,\uFEFF"; 
-    csvContent += "Time,Speaker,Content\n";
+    let csvContent = "\uFEFF";
+    csvContent += `Time,Speaker,Content,Review,Flag${commentExportMode === 'column' ? ',Comments' : ''}\n`;
+    const { notes, markers } = commentExportMode === 'footnotes' ? buildCommentFootnotes(rows) : { notes: [], markers: new Map<string, string>() };
     
     rows.forEach(row => {
         if (row.type === 'segment') {
-            csvContent += `"${row.time}","${row.speaker}","${row.content.replace(/"/g, '""')}"\n`;
+            const content = row.content + (markers.get(row.id) || '');
+            const comments = commentExportMode === 'column' ? `,${csvCell((row.threads || []).map(formatThreadForExport).join('\n'))}` : '';
+            csvContent += `"${row.time}","${row.speaker}","${content.replace(/"/g, '""')}",${csvCell(REVIEW_STATE_LABELS[row.review])},${csvCell(getFlagLabel(row.flag))}${comments}\n`;
         } else if (row.type === 'separator') {
              csvContent += `,,"${row.rawLine.replace(/"/g, '""')}"\n`;
         } else if (row.type === 'raw' && row.content.trim()) {
              csvContent += `,,"${row.content.replace(/"/g, '""')}"\n`;
         }
     });
+    notes.forEach((note, i) => {
+        csvContent += `,,${csvCell(`[${i + 1}] ${note}`)}\n`;
+    });
 
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `transcription_${new Date().toISOString().slice(0,10)}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `transcription_${new Date().toISOString().slice(0,10)}.csv`;
+    a.click();
   };
 
   const handleDownloadSRT = () => {
@@ -195,12 +300,9 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
     rows.forEach(row => {
         if (row.type !== 'segment') return;
 
-        const timeParts = row.time.split('-').map(t => t.trim());
-        if (timeParts.length === 0 || !timeParts[0]) return;
-
-        const startSec = parseTimeToSeconds(timeParts[0]);
-        let endSec = timeParts[1] ? parseTimeToSeconds(timeParts[1]) : startSec + 5;
-        if (endSec <= startSec) endSec = startSec + 3;
+        const times = getCueTimes(row.time);
+        if (!times) return;
+        const [startSec, endSec] = times;
 
         srtContent += `${counter}\n`;
         srtContent += `${formatSecondsToSRTTimestamp(startSec)} --> ${formatSecondsToSRTTimestamp(endSec)}\n`;
@@ -219,7 +321,76 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
     a.click();
   };
 
-  const handleImportCSV = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleDownloadVTT = () => {
+    const blob = new Blob([buildWebVTT(rows, { speakerClasses: vttSpeakerClasses })], { type: 'text/vtt' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `transcription_${new Date().toISOString().slice(0,10)}.vtt`;
+    a.click();
+  };
+
+  // Same rows (and speaker mapping) as the text export, laid out as a Word table
+  const handleDownloadDOCX = () => {
+    const blob = buildDocx({ ...exportInfo, rows, summary, comments: commentExportMode, options: docxOptions });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `transcription_${new Date().toISOString().slice(0,10)}.docx`;
+    a.click();
+    setShowDocxOptions(false);
+  };
+
+  const updateDocxOptions = (patch: Partial<DocxOptions>) => {
+    const next = { ...docxOptions, ...patch };
+    setDocxOptions(next);
+    saveDocxOptions(next);
+  };
+
+  const toggleVttSpeakerClasses = () => {
+    setVttSpeakerClasses(!vttSpeakerClasses);
+    saveVttSpeakerClasses(!vttSpeakerClasses);
+  };
+
+  const importVTT = (rawText: string) => {
+    const imported = parseWebVTT(rawText);
+    if (imported.cues === 0) {
+        alert("無法解析 VTT 檔案。");
+        return;
+    }
+    if (window.confirm(`成功解析 ${imported.cues} 個字幕。確定導入嗎？(將覆蓋現有內容)`)) {
+        onUpdate?.(imported.text);
+    }
+  };
+
+  const importSRT = (rawText: string, name: string) => {
+    const imported = parseSRT(rawText, (speakers || []).flatMap(s => [s.id, s.name]));
+    if (imported.cues === 0) {
+        alert("無法解析 SRT 檔案。");
+        return;
+    }
+    if (!text.trim()) {
+        if (window.confirm(`成功解析 ${imported.cues} 個字幕。確定導入嗎？`)) onUpdate?.(imported.text);
+        return;
+    }
+    // Existing transcript: ask whether to append or replace
+    setPendingSrt({ ...imported, name });
+  };
+
+  const applyPendingSrt = (mode: 'append' | 'replace') => {
+    if (!pendingSrt || !onUpdate) return;
+    if (mode === 'replace') {
+        onUpdate(pendingSrt.text);
+    } else {
+        // Same separator the app writes when appending a transcribed file; the part starts where the transcript ends
+        const span = getTimeSpan(transcriptDoc, transcriptDoc.blocks.map(b => b.id));
+        const start = formatSecondsToTime(Math.ceil(span ? span[1] : 0));
+        onUpdate(`${text.trimEnd()}\n\n--- [接續檔案: ${pendingSrt.name} | Start: ${start}] ---\n\n${pendingSrt.text}`);
+    }
+    setPendingSrt(null);
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !onUpdate) return;
 
@@ -227,59 +398,55 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
     reader.onload = (event) => {
         const rawText = event.target?.result as string;
         if (!rawText) return;
-
-        let input = rawText;
-        if (input.charCodeAt(0) === 0xFEFF) {
-            input = input.slice(1);
+        if (file.name.toLowerCase().endsWith('.vtt')) {
+            importVTT(rawText);
+            return;
+        }
+        if (file.name.toLowerCase().endsWith('.srt')) {
+            importSRT(rawText, file.name);
+            return;
+        }
+        if (file.name.toLowerCase().endsWith('.json')) {
+            onImportProject?.(rawText);
+            return;
         }
 
-        const lines = input.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+        const lines = splitCsvLines(rawText);
         let importString = "";
         let validRowsCount = 0;
+        // Review columns (present in files exported by this app); review state per imported segment, in order
+        let reviewCol = -1;
+        let flagCol = -1;
+        let contentEnd = -1; // First column after Content (Review / Flag / Comments)
+        const reviews: { review: ReviewState; flag?: string }[] = [];
+        // Exported with comment footnotes: drop the note rows and the "[n]" markers
+        const noteStart = findFootnoteRows(lines.map(l => parseCsvLine(l.trim())));
+        const hasFootnotes = noteStart < lines.length;
 
-        const parseLine = (line: string): string[] => {
-            const res: string[] = [];
-            let cur = '';
-            let inQuote = false;
-            for (let i = 0; i < line.length; i++) {
-                const c = line[i];
-                if (inQuote) {
-                    if (c === '"') {
-                        if (i + 1 < line.length && line[i + 1] === '"') {
-                            cur += '"';
-                            i++;
-                        } else {
-                            inQuote = false;
-                        }
-                    } else {
-                        cur += c;
-                    }
-                } else {
-                    if (c === '"') {
-                        inQuote = true;
-                    } else if (c === ',') {
-                        res.push(cur);
-                        cur = '';
-                    } else {
-                        cur += c;
-                    }
-                }
-            }
-            res.push(cur);
-            return res;
-        };
-
-        for (let i = 0; i < lines.length; i++) {
+        for (let i = 0; i < noteStart; i++) {
             const line = lines[i].trim();
             if (!line) continue;
             if (line.startsWith('---')) continue;
 
-            const cols = parseLine(line);
+            let cols = parseCsvLine(line);
             if (i < 5) {
                  const c0 = cols[0]?.toLowerCase().trim().replace(/^"|"$/g, '');
-                 if (c0 === 'time' || c0 === '時間' || c0.startsWith('time')) continue;
+                 if (c0 === 'time' || c0 === '時間' || c0.startsWith('time')) {
+                     const headers = cols.map(c => c.trim().toLowerCase());
+                     reviewCol = headers.indexOf('review');
+                     flagCol = headers.indexOf('flag');
+                     const extraCols = ['review', 'flag', 'comments'].map(h => headers.indexOf(h)).filter(c => c > 2);
+                     contentEnd = extraCols.length > 0 ? Math.min(...extraCols) : -1;
+                     continue;
+                 }
             }
 
+            let review: ReviewState = 'unreviewed';
+            let flag: string | undefined;
+            if (reviewCol > 2) review = parseReviewState(cols[reviewCol] || '');
+            if (flagCol > 2) flag = parseFlag(cols[flagCol] || '');
+            if (contentEnd > 2) cols = cols.slice(0, contentEnd);
+
             let time = "";
             let speaker = "";
             let content = "";
@@ -298,11 +465,12 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
 
             const cleanTime = time.trim();
             const cleanSpeaker = speaker.trim();
-            const cleanContent = content.trim();
+            const cleanContent = hasFootnotes && cleanTime ? content.trim().replace(FOOTNOTE_MARKERS_REGEX, '') : content.trim();
 
             if (cleanTime) {
                  const timeStr = cleanTime.startsWith('[') ? cleanTime : `[${cleanTime}]`;
                  importString += `${timeStr} ${cleanSpeaker ? cleanSpeaker + ': ' : ''}${cleanContent}\n`;
+                 reviews.push({ review, flag });
                  validRowsCount++;
             } else if (cleanContent) {
                  importString += `${cleanContent}\n`;
@@ -312,7 +480,21 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
         
         if (validRowsCount > 0) {
              if (window.confirm(`成功解析 ${validRowsCount} 行資料。確定導入嗎？(將覆蓋現有內容)`)) {
-                 onUpdate(importString);
+                 if (onApply && reviews.some(r => r.review !== 'unreviewed')) {
+                     // Rebuild as a document so the review state comes along (one undo step)
+                     onApply(() => {
+                         let imported = parseTranscript(importString);
+                         const segmentIds = imported.blocks.filter(b => b.type === 'segment').map(b => b.id);
+                         reviews.forEach((r, i) => {
+                             if (r.review !== 'unreviewed' && segmentIds[i]) {
+                                 imported = setReviewState(imported, [segmentIds[i]], r.review, r.flag);
+                             }
+                         });
+                         return imported;
+                     });
+                 } else {
+                     onUpdate(importString);
+                 }
              }
         } else {
             alert("無法解析 CSV 檔案。");
@@ -322,81 +504,221 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
     e.target.value = '';
   };
 
-  const updateRow = (index: number, field: 'time' | 'speaker' | 'content', value: string) => {
-    if (!onUpdate) return;
-    
-    const row = rows[index];
+  const updateRow = (row: RowData, field: 'time' | 'speaker' | 'content', value: string) => {
+    if (!onApply) return;
+    const options = { coalesceKey: `edit:${row.id}:${field}`, coalesceMs: TYPING_COALESCE_MS };
+
     if (row.type !== 'segment') {
-         const lines = text.split('\n');
-         lines[index] = value;
-         onUpdate(lines.join('\n'));
+         onApply(doc => replaceBlockLine(doc, row.id, value), options);
          return;
     }
 
-    const newSpeaker = field === 'speaker' ? value : row.speaker;
-    const newContent = field === 'content' ? value : row.content;
-    
-    const lines = text.split('\n');
-    const originalLine = lines[index];
-    
-    if (field === 'content' || field === 'speaker') {
-         // When updating manually, we preserve the original timestamp structure from the raw text
-         const timeMatch = originalLine.match(/^(\[.*?\])/);
-         const originalTimestampPrefix = timeMatch ? timeMatch[1] : `[${row.time}]`;
-         
-         const spk = newSpeaker ? `${newSpeaker}: ` : '';
-         lines[index] = `${originalTimestampPrefix} ${spk}${newContent}`;
+    if (field === 'speaker') {
+         onApply(doc => updateSegment(doc, row.id, { speaker: value }), options);
+    } else if (field === 'content') {
+         onApply(doc => updateSegment(doc, row.id, { text: value }), options);
     } else if (field === 'time') {
-         // Logic to update time in raw text (complex due to offsets, simplifying to replace display time)
-         // For now, this updates the display representation in raw text line
-         const spk = newSpeaker ? `${newSpeaker}: ` : '';
-         lines[index] = `[${value}] ${spk}${newContent}`;
+         // The typed value is the displayed (offset-applied) time; store it relative to the part
+         const [start, end] = value.split('-').map(t => t.trim());
+         onApply(doc => setSegmentTimes(doc, row.id, {
+             start: parseTimeToSeconds(start),
+             end: end ? parseTimeToSeconds(end) : undefined,
+         }));
     }
-
-    onUpdate(lines.join('\n'));
   };
 
-  const toggleSelect = (index: number) => {
-    const newSet = new Set(selectedIndices);
-    if (newSet.has(index)) {
-        newSet.delete(index);
+  const toggleSelect = (id: string) => {
+    const newSet = new Set(selectedIds);
+    if (newSet.has(id)) {
+        newSet.delete(id);
     } else {
-        newSet.add(index);
+        newSet.add(id);
     }
-    setSelectedIndices(newSet);
+    setSelectedIds(newSet);
   };
 
   const toggleSelectAll = () => {
-     if (selectedIndices.size === rows.length) {
-         setSelectedIndices(new Set());
+     if (selectedIds.size === rows.length) {
+         setSelectedIds(new Set());
      } else {
-         const allIndices = rows.map((_, i) => i);
-         setSelectedIndices(new Set(allIndices));
+         setSelectedIds(new Set(rows.map(r => r.id)));
      }
   };
 
+  // Deleting is undoable, so no confirmation dialog
   const handleDeleteSelected = () => {
-      if (!onUpdate) return;
-      if (window.confirm(`確定要刪除選取的 ${selectedIndices.size} 行嗎？`)) {
-          const lines = text.split('\n');
-          const newLines = lines.filter((_, idx) => !selectedIndices.has(idx));
-          onUpdate(newLines.join('\n'));
-          setSelectedIndices(new Set());
+      if (!onApply) return;
+      const ids = Array.from(selectedIds);
+      onApply(doc => deleteBlocks(doc, ids));
+      setSelectedIds(new Set());
+  };
+
+  const openComments = (id: string) => {
+      setCommentTargetId(id);
+      setShowComments(true);
+  };
+
+  const rowsById = useMemo(() => new Map(rows.map(r => [r.id, r])), [rows]);
+
+  const describeSegment = (id: string) => {
+      const row = rowsById.get(id);
+      return row ? `${row.time.split('-')[0].trim()} ${row.speaker}`.trim() : '';
+  };
+
+  const handleReviewChange = (id: string, state: ReviewState, flag?: string) => {
+      onApply?.(doc => setReviewState(doc, [id], state, flag));
+  };
+
+  const handleMarkSelectedReviewed = () => {
+      const ids = Array.from(selectedIds);
+      onApply?.(doc => setReviewState(doc, ids, 'reviewed'));
+  };
+
+  // Moves from the last focused (or playing) row to the next / previous unreviewed segment
+  const goToUnreviewed = (direction: 1 | -1) => {
+      const fromId = focusedRowId || activeId;
+      const from = fromId ? rows.findIndex(r => r.id === fromId) : -1;
+      const count = rows.length;
+      for (let step = 1; step <= count; step++) {
+          const index = ((from === -1 && direction === -1 ? count : from) + step * direction + count * 2) % count;
+          const row = rows[index];
+          if (row.type === 'segment' && row.review === 'unreviewed') {
+              if (reviewFilter !== 'all' && reviewFilter !== 'unreviewed') setReviewFilter('all');
+              setFocusedRowId(row.id);
+              return;
+          }
       }
   };
 
+  const selectedSegments = transcriptDoc.blocks.filter(
+    (b): b is TranscriptSegmentBlock => b.type === 'segment' && selectedIds.has(b.id)
+  );
+
+  const handleMergeSelected = () => {
+      if (!onApply) return;
+      const ids = selectedSegments.map(b => b.id);
+      const merged = mergeSegments(transcriptDoc, ids);
+      if (merged === transcriptDoc) {
+          alert("只能合併同一檔案內相鄰的段落。");
+          return;
+      }
+      const speakerSet = new Set(selectedSegments.map(b => b.speaker));
+      if (speakerSet.size > 1 && !window.confirm(`選取的段落有不同說話者，合併後將統一為「${selectedSegments[0].speaker || '(無)'}」。確定合併嗎？`)) {
+          return;
+      }
+      onApply(doc => mergeSegments(doc, ids));
+      setSelectedIds(new Set());
+  };
+
+  const trackCaret = (id: string, e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+      caretRef.current = { id, at: e.currentTarget.selectionStart };
+  };
+
+  // Splits at the last cursor position; with askTime the boundary can be typed in (displayed time)
+  const handleSplit = (id: string, askTime: boolean) => {
+      if (!onApply) return;
+      const index = transcriptDoc.blocks.findIndex(b => b.id === id);
+      const block = transcriptDoc.blocks[index];
+      if (!block || block.type !== 'segment') return;
+
+      const at = caretRef.current?.id === id ? caretRef.current.at : -1;
+      if (at <= 0 || at >= block.text.length || !block.text.slice(0, at).trim() || !block.text.slice(at).trim()) {
+          alert("請先在內容中點擊要分割的位置。");
+          return;
+      }
+
+      let splitTime: string | undefined;
+      if (askTime) {
+          const offset = getBlockOffsets(transcriptDoc.blocks)[index];
+          const suggested = formatSecondsToTime(interpolateSplitTime(block, at) + offset);
+          const input = window.prompt("分割時間 (顯示時間，例如 01:23)", suggested);
+          if (input === null) return;
+          const start = parseTimeToSeconds(block.start) + offset;
+          const end = (block.end ? parseTimeToSeconds(block.end) : parseTimeToSeconds(block.start)) + offset;
+          const value = parseTimeToSeconds(input.trim());
+          if (!TIME_PATTERN.test(input.trim()) || value < start || value > end) {
+              alert(`分割時間必須介於 ${formatSecondsToTime(start)} 與 ${formatSecondsToTime(end)} 之間。`);
+              return;
+          }
+          splitTime = formatSecondsToTime(value - offset);
+      }
+
+      onApply(doc => splitSegment(doc, id, at, splitTime));
+      caretRef.current = null;
+  };
+
+  // Drop selections whose rows no longer exist (after undo, import or clear)
+  useEffect(() => {
+    if (selectedIds.size === 0) return;
+    const existing = new Set(transcriptDoc.blocks.map(b => b.id));
+    const kept = Array.from(selectedIds).filter(id => existing.has(id));
+    if (kept.length !== selectedIds.size) setSelectedIds(new Set(kept));
+  }, [transcriptDoc]);
+
+  const isTranscribing = status === 'transcribing';
+
+  // --- Media sync ---
+  const timeline = useMemo(
+    () => mediaFile ? getPlaybackTimeline(transcriptDoc.blocks, mediaFile.name) : [],
+    [transcriptDoc, mediaFile]
+  );
+  const timelineById = useMemo(() => new Map(timeline.map(s => [s.id, s])), [timeline]);
+  const activeSegment = mediaFile ? findSegmentAt(timeline, playbackTime) : undefined;
+  const activeId = activeSegment?.id;
+
+  const seekToRow = (id: string) => {
+    const segment = timelineById.get(id);
+    const media = mediaRef.current;
+    if (!segment || !media) return;
+    media.currentTime = segment.start;
+    setPlaybackTime(segment.start);
+    media.play().catch(() => { /* Autoplay may be blocked; the seek still applies */ });
+  };
+
+  // Keep the playing segment in view (only while playing, so editing is not disturbed)
+  useEffect(() => {
+    if (!isPlaying || !activeId || viewMode !== 'table') return;
+    scrollToRow(activeId, 'nearest');
+  }, [activeId, isPlaying, viewMode]);
+
+  useEffect(() => {
+    if (focusedRowId) scrollToRow(focusedRowId, 'center');
+  }, [focusedRowId]);
+
+  useEffect(() => {
+    setPlaybackTime(0);
+    setIsPlaying(false);
+  }, [mediaFile]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'f' && text) {
+        e.preventDefault();
+        setViewMode('table');
+        setShowFind(true);
+        return;
+    }
+    if (isTranscribing) return;
+    if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        if (canUndo) onUndo?.();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        if (canRedo) onRedo?.();
+    }
+  };
+
   const renderTable = () => {
     const tableRows: React.ReactNode[] = [];
-    const isTranscribing = status === 'transcribing';
-
-    rows.forEach((row, index) => {
-        if (!row.content.trim() && row.type === 'raw') return;
 
+    // Only the rows around the viewport are mounted
+    tableRowsData.slice(virtual.start, virtual.end).forEach((row) => {
         if (row.type === 'separator') {
             tableRows.push(
-                <tr key={index} className="bg-blue-50 dark:bg-blue-900/30">
+                <tr key={row.id} ref={virtual.measureRef(row.id)} className="bg-blue-50 dark:bg-blue-900/30">
                     <td className="w-10 px-2 py-2 text-center border-b border-slate-100 dark:border-slate-700"></td>
-                    <td colSpan={3} className="px-4 py-2 text-xs font-semibold text-blue-600 dark:text-blue-300 text-center border-b border-slate-100 dark:border-slate-700 font-mono">
+                    <td colSpan={4} className="px-4 py-2 text-xs font-semibold text-blue-600 dark:text-blue-300 text-center border-b border-slate-100 dark:border-slate-700 font-mono">
                         {row.content}
                     </td>
                 </tr>
@@ -404,47 +726,85 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
             return;
         }
 
-        const isSelected = selectedIndices.has(index);
+        const isSelected = selectedIds.has(row.id);
+        const isActive = row.id === activeId;
+        const canSeek = timelineById.has(row.id);
 
         tableRows.push(
-            <tr key={index} className={`hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors border-b border-slate-100 dark:border-slate-700 last:border-0 group ${isSelected ? 'bg-blue-50/50 dark:bg-blue-900/20' : ''}`}>
+            <tr
+                key={row.id}
+                ref={virtual.measureRef(row.id)}
+                className={`hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors border-b border-slate-100 dark:border-slate-700 last:border-0 group ${row.id === focusedRowId ? 'ring-2 ring-inset ring-amber-400' : ''} ${isActive ? 'bg-amber-50 dark:bg-amber-900/20 shadow-[inset_3px_0_0_#f59e0b]' : isSelected ? 'bg-blue-50/50 dark:bg-blue-900/20' : ''}`}
+            >
                 <td className="px-2 py-3 align-top w-10 text-center">
                     {!isTranscribing && (
                         <button 
-                            onClick={() => toggleSelect(index)}
+                            onClick={() => toggleSelect(row.id)}
                             className="text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
                         >
                             {isSelected ? <CheckSquare size={16} className="text-blue-600 dark:text-blue-400"/> : <Square size={16} />}
                         </button>
                     )}
+                    {!isTranscribing && row.type === 'segment' && onApply && (
+                        <button
+                            onMouseDown={(e) => e.preventDefault()} // Keep the cursor in the content cell
+                            onClick={() => handleSplit(row.id, true)}
+                            className="block mx-auto mt-1 text-slate-300 hover:text-blue-600 dark:text-slate-600 dark:hover:text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="於游標處分割段落"
+                        >
+                            <Scissors size={14} />
+                        </button>
+                    )}
                 </td>
                 <td className="px-2 py-2 align-top w-36">
                      {row.type === 'segment' ? (
-                         <input 
-                            type="text"
+                       <div className="flex items-center gap-0.5">
+                         {mediaFile && (
+                             <button
+                                onClick={() => seekToRow(row.id)}
+                                disabled={!canSeek}
+                                className="shrink-0 text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-30 disabled:hover:text-slate-400 transition-colors"
+                                title={canSeek ? "從此處播放" : "此段落不屬於目前載入的檔案"}
+                             >
+                                <Play size={12} className={isActive && isPlaying ? 'fill-current text-amber-500' : ''} />
+                             </button>
+                         )}
+                         <TimeInput
                             value={row.time}
                             disabled={isTranscribing}
-                            onChange={(e) => updateRow(index, 'time', e.target.value)}
-                            className="w-full bg-transparent border border-transparent hover:border-slate-200 dark:hover:border-slate-600 focus:border-blue-300 dark:focus:border-blue-500 focus:bg-white dark:focus:bg-slate-800 rounded px-1 py-0.5 text-xs font-mono text-slate-500 dark:text-slate-400 outline-none transition-all"
+                            onCommit={(value) => updateRow(row, 'time', value)}
                          />
+                       </div>
                      ) : null}
                 </td>
-                <td className="px-2 py-2 align-top w-28">
+                <td className="px-2 py-2 align-top w-36">
                     {row.type === 'segment' ? (
+                      <div className="flex items-center gap-1">
+                        <SpeakerBadge name={row.speaker} />
                         <input 
                             type="text"
                             value={row.speaker} // Mapped speaker name displayed here
                             disabled={isTranscribing}
-                            onChange={(e) => updateRow(index, 'speaker', e.target.value)}
-                            className="w-full bg-transparent border border-transparent hover:border-slate-200 dark:hover:border-slate-600 focus:border-blue-300 dark:focus:border-blue-500 focus:bg-white dark:focus:bg-slate-800 rounded px-1 py-0.5 text-xs font-bold text-slate-700 dark:text-slate-300 outline-none transition-all"
+                            onChange={(e) => updateRow(row, 'speaker', e.target.value)}
+                            className={`w-full min-w-0 bg-transparent border border-transparent hover:border-slate-200 dark:hover:border-slate-600 focus:border-blue-300 dark:focus:border-blue-500 focus:bg-white dark:focus:bg-slate-800 rounded px-1 py-0.5 text-xs font-bold outline-none transition-all ${getSpeakerColor(row.speaker).text}`}
                         />
+                      </div>
                     ) : null}
                 </td>
                 <td className="px-2 py-2 align-top">
                     <textarea 
                         value={row.content}
                         disabled={isTranscribing}
-                        onChange={(e) => updateRow(index, 'content', e.target.value)}
+                        onChange={(e) => { updateRow(row, 'content', e.target.value); trackCaret(row.id, e); }}
+                        onSelect={(e) => trackCaret(row.id, e)}
+                        onKeyDown={(e) => {
+                            if (row.type === 'segment' && e.key === 'Enter' && e.altKey) {
+                                e.preventDefault();
+                                trackCaret(row.id, e);
+                                handleSplit(row.id, false);
+                            }
+                        }}
+                        title={row.type === 'segment' ? "Alt+Enter 於游標處分割" : undefined}
                         rows={1}
                         style={{ height: 'auto', minHeight: '1.5rem' }}
                         onInput={(e) => {
@@ -455,6 +815,26 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
                         className="w-full bg-transparent border border-transparent hover:border-slate-200 dark:hover:border-slate-600 focus:border-blue-300 dark:focus:border-blue-500 focus:bg-white dark:focus:bg-slate-800 rounded px-1 py-0.5 text-sm text-slate-800 dark:text-slate-200 leading-relaxed outline-none resize-none overflow-hidden transition-all"
                     />
                 </td>
+                <td className="px-2 py-2 align-top w-16 xl:w-28">
+                    {row.type === 'segment' && (
+                      <div className="flex items-start gap-1">
+                        <ReviewToggle
+                            state={row.review}
+                            flag={row.flag}
+                            disabled={isTranscribing || !onApply}
+                            onChange={(state, flag) => handleReviewChange(row.id, state, flag)}
+                        />
+                        <button
+                            onClick={() => openComments(row.id)}
+                            className={`flex items-center gap-0.5 text-[10px] transition-opacity ${row.threads?.length ? (countOpenThreads(row.threads) > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400') : 'text-slate-300 dark:text-slate-600 opacity-0 group-hover:opacity-100'} hover:text-blue-600 dark:hover:text-blue-400`}
+                            title={row.threads?.length ? `${row.threads.length} 則留言串` : "新增留言"}
+                        >
+                            <MessageSquare size={14} />
+                            {row.threads?.length ? countOpenThreads(row.threads) || '' : ''}
+                        </button>
+                      </div>
+                    )}
+                </td>
             </tr>
         );
     });
@@ -466,17 +846,20 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
                     <th className="px-2 py-2 w-10 text-center">
                          {!isTranscribing && (
                             <button onClick={toggleSelectAll} className="text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">
-                                {selectedIndices.size > 0 && selectedIndices.size === rows.length ? <CheckSquare size={16}/> : <Square size={16}/>}
+                                {selectedIds.size > 0 && selectedIds.size === rows.length ? <CheckSquare size={16}/> : <Square size={16}/>}
                             </button>
                          )}
                     </th>
                     <th className="px-2 py-2 text-xs font-semibold text-slate-500 dark:text-slate-400 w-36">時間 (開始 - 結束)</th>
-                    <th className="px-2 py-2 text-xs font-semibold text-slate-500 dark:text-slate-400 w-28">說話者</th>
+                    <th className="px-2 py-2 text-xs font-semibold text-slate-500 dark:text-slate-400 w-36">說話者</th>
                     <th className="px-2 py-2 text-xs font-semibold text-slate-500 dark:text-slate-400">內容 (點擊可編輯)</th>
+                    <th className="px-2 py-2 text-xs font-semibold text-slate-500 dark:text-slate-400 w-16 xl:w-28">審核</th>
                 </tr>
             </thead>
             <tbody>
+                {virtual.paddingTop > 0 && <tr aria-hidden style={{ height: virtual.paddingTop }} />}
                 {tableRows}
+                {virtual.paddingBottom > 0 && <tr aria-hidden style={{ height: virtual.paddingBottom }} />}
             </tbody>
         </table>
     );
@@ -492,7 +875,7 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
   };
 
   return (
-    <div className={`bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm flex flex-col ${className || 'h-[650px]'}`}>
+    <div onKeyDown={handleKeyDown} className={`bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm flex flex-col ${className || 'h-[650px]'}`}>
       <div className="flex items-center justify-between p-3 border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 rounded-t-xl flex-wrap gap-2 shrink-0">
         <div className="flex items-center gap-2 text-slate-800 dark:text-slate-200 font-semibold">
           <FileText size={20} className="text-blue-600 dark:text-blue-400" />
@@ -500,16 +883,59 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
         </div>
         
         <div className="flex items-center gap-1 flex-wrap justify-end">
-           {selectedIndices.size > 0 && viewMode === 'table' && (
+           {selectedIds.size > 0 && viewMode === 'table' && (
                 <Button 
                     variant="danger" 
                     onClick={handleDeleteSelected} 
                     className="text-xs h-8 px-2 mr-2 animate-fade-in"
                 >
-                    <Trash2 size={14} className="mr-1"/> 刪除 ({selectedIndices.size})
+                    <Trash2 size={14} className="mr-1"/> 刪除 ({selectedIds.size})
+                </Button>
+           )}
+
+           {selectedSegments.length > 1 && viewMode === 'table' && onApply && (
+                <Button
+                    variant="secondary"
+                    onClick={handleMergeSelected}
+                    disabled={isTranscribing}
+                    className="text-xs h-8 px-2 mr-2 animate-fade-in dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600"
+                    title="合併選取的相鄰段落"
+                >
+                    <Combine size={14} className="mr-1"/> 合併 ({selectedSegments.length})
                 </Button>
            )}
 
+           {onUndo && (
+               <>
+                 <Button variant="ghost" onClick={onUndo} disabled={!canUndo} className="text-xs h-8 px-2 dark:text-slate-300 dark:hover:bg-slate-700" title="復原 (Ctrl+Z)">
+                   <Undo2 size={14} />
+                 </Button>
+                 <Button variant="ghost" onClick={onRedo} disabled={!canRedo} className="text-xs h-8 px-2 mr-2 dark:text-slate-300 dark:hover:bg-slate-700" title="重做 (Ctrl+Shift+Z)">
+                   <Redo2 size={14} />
+                 </Button>
+               </>
+           )}
+
+           <Button variant="ghost" onClick={() => { setViewMode('table'); setShowFind(!showFind); }} disabled={!text} className={`text-xs h-8 px-2 mr-2 dark:text-slate-300 dark:hover:bg-slate-700 ${showFind ? 'bg-slate-200 dark:bg-slate-700' : ''}`} title="尋找與取代 (Ctrl+F)">
+             <Search size={14} />
+           </Button>
+
+           <Button variant="ghost" onClick={() => { setViewMode('table'); setShowSpeakers(!showSpeakers); }} disabled={!text} className={`text-xs h-8 px-2 mr-2 dark:text-slate-300 dark:hover:bg-slate-700 ${showSpeakers ? 'bg-slate-200 dark:bg-slate-700' : ''}`} title="說話者管理">
+             <Users size={14} />
+           </Button>
+
+           <Button variant="ghost" onClick={() => { setViewMode('table'); setShowComments(!showComments); }} disabled={!text} className={`text-xs h-8 px-2 mr-2 dark:text-slate-300 dark:hover:bg-slate-700 ${showComments ? 'bg-slate-200 dark:bg-slate-700' : ''}`} title="留言">
+             <MessageSquare size={14} />
+           </Button>
+
+           <Button variant="ghost" onClick={() => { setViewMode('table'); setShowRetime(!showRetime); }} disabled={!text} className={`text-xs h-8 px-2 mr-2 dark:text-slate-300 dark:hover:bg-slate-700 ${showRetime ? 'bg-slate-200 dark:bg-slate-700' : ''}`} title="時間校正 (位移 / 縮放)">
+             <Clock size={14} />
+           </Button>
+
+           <Button variant="ghost" onClick={() => setShowSnapshots(true)} className="text-xs h-8 px-2 mr-2 dark:text-slate-300 dark:hover:bg-slate-700" title="版本快照與比較">
+             <History size={14} />
+           </Button>
+
            <div className="flex bg-slate-200 dark:bg-slate-700 rounded-lg p-1 mr-2">
               <button 
                 onClick={() => setViewMode('table')}
@@ -549,10 +975,10 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
             type="file" 
             ref={fileInputRef}
             className="hidden" 
-            accept=".csv"
-            onChange={handleImportCSV}
+            accept={onImportProject ? ".csv,.vtt,.srt,.json" : ".csv,.vtt,.srt"}
+            onChange={handleImportFile}
           />
-          <Button variant="ghost" onClick={() => fileInputRef.current?.click()} className="text-xs h-8 px-2 dark:text-slate-300 dark:hover:bg-slate-700" title="導入 CSV">
+          <Button variant="ghost" onClick={() => fileInputRef.current?.click()} className="text-xs h-8 px-2 dark:text-slate-300 dark:hover:bg-slate-700" title={onImportProject ? "導入 CSV / VTT / SRT / 專案檔 (.json)" : "導入 CSV / VTT / SRT"}>
              <Upload size={14} /> 導入
           </Button>
 
@@ -566,13 +992,129 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
           <Button variant="ghost" onClick={handleDownloadSRT} className="text-xs h-8 px-2 dark:text-slate-300 dark:hover:bg-slate-700" title="下載 .srt (字幕檔)">
             <Captions size={14} /> SRT
           </Button>
+          <div className="flex items-center">
+            <Button variant="ghost" onClick={handleDownloadVTT} className="text-xs h-8 pl-2 pr-1 dark:text-slate-300 dark:hover:bg-slate-700" title="下載 .vtt (WebVTT 字幕檔)">
+              <Captions size={14} /> VTT
+            </Button>
+            <button
+              onClick={toggleVttSpeakerClasses}
+              className={`h-8 px-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 ${vttSpeakerClasses ? 'text-blue-600 dark:text-blue-400' : 'text-slate-400'}`}
+              title={vttSpeakerClasses ? "VTT 包含說話者顏色樣式 (點擊關閉)" : "VTT 不含說話者顏色樣式 (點擊開啟)"}
+            >
+              <Palette size={12} />
+            </button>
+          </div>
            <Button variant="ghost" onClick={handleDownloadCSV} className="text-xs h-8 px-2 dark:text-slate-300 dark:hover:bg-slate-700" title="下載 .csv">
             <FileSpreadsheet size={14} /> CSV
           </Button>
+          <div className="relative">
+            <Button variant="ghost" onClick={() => setShowDocxOptions(!showDocxOptions)} className={`text-xs h-8 px-2 dark:text-slate-300 dark:hover:bg-slate-700 ${showDocxOptions ? 'bg-slate-200 dark:bg-slate-700' : ''}`} title="下載 .docx (Word 文件)">
+              <FileType size={14} /> Word
+            </Button>
+            {showDocxOptions && (
+              <div className="absolute right-0 top-full mt-1 z-30 w-56 p-3 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg flex flex-col gap-2 text-xs text-slate-600 dark:text-slate-300">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={docxOptions.speakerColors} onChange={e => updateDocxOptions({ speakerColors: e.target.checked })} className="w-3 h-3" />
+                  說話者顏色
+                </label>
+                <label className={`flex items-center gap-2 ${summary ? 'cursor-pointer' : 'opacity-50'}`} title={summary ? undefined : "請先在「AI 摘要」分頁生成摘要"}>
+                  <input type="checkbox" checked={docxOptions.includeSummary && !!summary} disabled={!summary} onChange={e => updateDocxOptions({ includeSummary: e.target.checked })} className="w-3 h-3" />
+                  附加摘要
+                </label>
+                <span className="text-slate-400">留言: {commentExportMode === 'column' ? '額外欄位' : commentExportMode === 'footnotes' ? '註腳' : '不包含'} (於留言面板設定)</span>
+                <Button variant="primary" onClick={handleDownloadDOCX} disabled={!text} className="text-xs h-7 px-2 mt-1">
+                  <Download size={12} /> 下載 Word
+                </Button>
+              </div>
+            )}
+          </div>
+          <Button variant="ghost" onClick={() => setShowCourtExport(true)} disabled={!text} className="text-xs h-8 px-2 dark:text-slate-300 dark:hover:bg-slate-700" title="法庭格式 (分頁、行號，可列印 / 另存 PDF)">
+            <Scale size={14} /> 法庭
+          </Button>
+          {onExportProject && (
+            <Button variant="ghost" onClick={onExportProject} className="text-xs h-8 px-2 dark:text-slate-300 dark:hover:bg-slate-700" title="下載專案檔 .json (設定、說話者、分段、審核、留言及摘要，可重新導入)">
+              <FileJson size={14} /> 專案
+            </Button>
+          )}
         </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto bg-white dark:bg-slate-900 scrollbar-thin relative min-h-0">
+      {pendingSrt && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-blue-100 dark:border-blue-900/50 bg-blue-50 dark:bg-blue-900/20 text-xs text-slate-700 dark:text-slate-200">
+          <Captions size={14} className="text-blue-600 dark:text-blue-400" />
+          <span>已解析「{pendingSrt.name}」共 {pendingSrt.cues} 個字幕，要如何導入？</span>
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant="primary" onClick={() => applyPendingSrt('append')} className="text-xs h-7 px-2" title="加上分隔線，接在現有內容之後">
+              附加為新部分
+            </Button>
+            <Button variant="secondary" onClick={() => applyPendingSrt('replace')} className="text-xs h-7 px-2 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600">
+              取代現有內容
+            </Button>
+            <Button variant="ghost" onClick={() => setPendingSrt(null)} className="text-xs h-7 px-2 dark:text-slate-300 dark:hover:bg-slate-700">
+              取消
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {showFind && viewMode === 'table' && text && (
+        <FindReplacePanel
+          document={transcriptDoc}
+          speakers={speakers}
+          selectedIds={selectedIds}
+          onApply={onApply}
+          onFocusMatch={setFocusedRowId}
+          onClose={() => setShowFind(false)}
+          disabled={isTranscribing}
+        />
+      )}
+
+      {showSpeakers && viewMode === 'table' && text && (
+        <SpeakerManager
+          document={transcriptDoc}
+          speakers={speakers}
+          selectedIds={selectedIds}
+          onApply={onApply}
+          onClose={() => setShowSpeakers(false)}
+          disabled={isTranscribing}
+        />
+      )}
+
+      {viewMode === 'table' && text && reviewProgress.total > 0 && (
+        <ReviewBar
+          progress={reviewProgress}
+          filter={reviewFilter}
+          onFilterChange={setReviewFilter}
+          onPrevUnreviewed={() => goToUnreviewed(-1)}
+          onNextUnreviewed={() => goToUnreviewed(1)}
+          selectedCount={selectedSegments.length}
+          onMarkSelectedReviewed={handleMarkSelectedReviewed}
+          disabled={isTranscribing || !onApply}
+        />
+      )}
+
+      {showRetime && viewMode === 'table' && text && (
+        <RetimePanel
+          document={transcriptDoc}
+          selectedIds={selectedIds}
+          onApply={onApply}
+          onClose={() => setShowRetime(false)}
+          disabled={isTranscribing}
+        />
+      )}
+
+      {mediaFile && (
+        <MediaPlayer
+          file={mediaFile}
+          mediaRef={mediaRef}
+          onTimeUpdate={setPlaybackTime}
+          onPlayingChange={setIsPlaying}
+          loopRange={activeSegment ? { start: activeSegment.start, end: activeSegment.end } : null}
+        />
+      )}
+
+      <div className="flex-1 min-h-0 flex">
+      <div ref={scrollRef} className="flex-1 min-w-0 overflow-y-auto bg-white dark:bg-slate-900 scrollbar-thin relative min-h-0">
         {!text ? (
           <div className="h-full flex flex-col items-center justify-center text-slate-400 dark:text-slate-600 p-8 text-center">
             <TableIcon size={48} className="mb-4 opacity-20" />
@@ -590,11 +1132,39 @@ const TranscriptionView: React.FC<TranscriptionViewProps> = ({ text, status, spe
             )
         )}
       </div>
+
+      {showComments && text && (
+        <CommentsPanel
+          document={transcriptDoc}
+          targetId={commentTargetId}
+          describeSegment={describeSegment}
+          onSelectSegment={(id) => { setCommentTargetId(id); setReviewFilter('all'); setFocusedRowId(id); }}
+          onApply={onApply}
+          exportMode={commentExportMode}
+          onExportModeChange={handleCommentExportModeChange}
+          onClose={() => setShowComments(false)}
+          disabled={isTranscribing}
+        />
+      )}
+      </div>
       
       <div className="p-2 border-t border-slate-100 dark:border-slate-800 text-xs text-center text-slate-400 dark:text-slate-500 bg-slate-50 dark:bg-slate-800/50 rounded-b-xl flex justify-between px-4 shrink-0">
         <span>字數統計: {getProcessedText().length}</span>
         {viewMode === 'table' && <span className="text-blue-600 dark:text-blue-400 hidden sm:inline">時間戳已自動校正 | 可點擊文字編輯</span>}
       </div>
+
+      {showCourtExport && (
+        <CourtExportDialog rows={rows} exportInfo={exportInfo} onClose={() => setShowCourtExport(false)} />
+      )}
+
+      {showSnapshots && (
+        <SnapshotPanel
+          document={transcriptDoc}
+          onRestore={onApply ? (doc) => onApply(() => doc) : undefined}
+          onClose={() => setShowSnapshots(false)}
+          disabled={isTranscribing}
+        />
+      )}
     </div>
   );
 };
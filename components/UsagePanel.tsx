@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Coins, Download, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import Button from './Button';
+import { UsageRecord } from '../types';
+import { getUsageLedger, subscribeUsageLedger, clearUsageLedger, sumUsage, usageLedgerToCsv, formatTokens, formatUsd } from '../services/usageLedger';
+
+interface UsageGroup {
+  key: string;
+  label: string;
+  time: number;
+  records: UsageRecord[];
+}
+
+// Running token / cost ledger across transcription jobs and summaries
+const UsagePanel: React.FC = () => {
+  const [records, setRecords] = useState<UsageRecord[]>(() => getUsageLedger());
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => subscribeUsageLedger(() => setRecords(getUsageLedger())), []);
+
+  const totals = useMemo(() => sumUsage(records), [records]);
+
+  // One group per job; summaries are listed on their own
+  const groups = useMemo(() => {
+    const map = new Map<string, UsageGroup>();
+    records.forEach(r => {
+      const key = r.jobId || r.id;
+      const group = map.get(key) || {
+        key,
+        label: r.kind === 'summary' ? `摘要 (${r.model})` : (r.fileName || r.model),
+        time: r.time,
+        records: []
+      };
+      group.records.push(r);
+      group.time = Math.max(group.time, r.time);
+      map.set(key, group);
+    });
+    return Array.from(map.values()).sort((a, b) => b.time - a.time);
+  }, [records]);
+
+  const handleExport = () => {
+    const blob = new Blob(['\uFEFF' + usageLedgerToCsv(records)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `usage_ledger_${new Date().toISOString().slice(0,10)}.csv`;
+    a.click();
+  };
+
+  const handleClear = () => {
+    if (window.confirm("確定要清除全部用量記錄嗎？建議先匯出。")) clearUsageLedger();
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm transition-colors">
+      <div className="flex items-center gap-2 mb-3 text-emerald-600 dark:text-emerald-400">
+        <Coins size={20} />
+        <h3 className="font-semibold">用量及費用記錄</h3>
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">尚無記錄。每次轉錄及生成摘要後，實際 token 用量會記錄於此。</p>
+      ) : (
+        <div className="flex flex-col gap-3">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-slate-50 dark:bg-slate-800 rounded-lg p-2">
+              <div className="text-[10px] text-slate-400">輸入</div>
+              <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">{formatTokens(totals.inputTokens)}</div>
+            </div>
+            <div className="bg-slate-50 dark:bg-slate-800 rounded-lg p-2">
+              <div className="text-[10px] text-slate-400">輸出</div>
+              <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">{formatTokens(totals.outputTokens)}</div>
+            </div>
+            <div className="bg-slate-50 dark:bg-slate-800 rounded-lg p-2">
+              <div className="text-[10px] text-slate-400">費用</div>
+              <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">{formatUsd(totals.costUsd)}</div>
+            </div>
+          </div>
+          {totals.unpricedRequests > 0 && (
+            <p className="text-[10px] text-slate-400 -mt-1">{totals.unpricedRequests} 次請求的模型沒有價格資料，未計入費用。</p>
+          )}
+
+          <button onClick={() => setIsOpen(!isOpen)} className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">
+            <span>按工作列出 ({groups.length})</span>
+            {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+
+          {isOpen && (
+            <div className="flex flex-col gap-1.5 max-h-[240px] overflow-y-auto scrollbar-thin">
+              {groups.map(g => {
+                const sum = sumUsage(g.records);
+                return (
+                  <div key={g.key} className="px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded border border-slate-100 dark:border-slate-700">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-slate-700 dark:text-slate-300 truncate" title={g.label}>{g.label}</span>
+                      <span className="text-xs font-medium text-slate-600 dark:text-slate-300 shrink-0">{sum.unpricedRequests === sum.requests ? '—' : formatUsd(sum.costUsd)}</span>
+                    </div>
+                    <div className="text-[10px] text-slate-400">
+                      {new Date(g.time).toLocaleString()} · {sum.requests} 次請求 · {formatTokens(sum.inputTokens)} / {formatTokens(sum.outputTokens)} tokens
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={handleExport} variant="secondary" className="flex-1 text-xs h-8 px-2 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600 dark:hover:bg-slate-600">
+              <Download size={14} /> 匯出 CSV
+            </Button>
+            <Button onClick={handleClear} variant="ghost" className="text-xs h-8 px-2 text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20" title="清除記錄">
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
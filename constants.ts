@@ -1,28 +1,44 @@
 export const MAX_FILE_SIZE_INLINE = 20 * 1024 * 1024; // Reverted to 20MB (Standard Google API limit)
 
+// pricing: USD per 1M tokens (list prices, used for estimates only)
 export const AI_MODELS = [
   { 
     id: 'gemini-3-pro-preview', 
     name: 'Gemini 3.0 Pro (預覽版)', 
-    description: '最新一代模型，品質最高但可能仍在測試中。'
+    description: '最新一代模型，品質最高但可能仍在測試中。',
+    maxOutputTokens: 65536,
+    pricing: { input: 2.0, audioInput: 2.0, output: 12.0 }
   },
   { 
     id: 'gemini-2.0-flash', 
     name: 'Gemini 2.0 Flash (穩定版 / 推薦)', 
-    description: '目前最穩定且快速的模型，適合大多數用途。'
+    description: '目前最穩定且快速的模型，適合大多數用途。',
+    maxOutputTokens: 8192,
+    pricing: { input: 0.10, audioInput: 0.70, output: 0.40 }
   },
   { 
     id: 'gemini-2.0-flash-lite-preview-02-05', 
     name: 'Gemini 2.0 Flash Lite (極速)', 
-    description: '針對低延遲優化，適合長錄音快速轉錄。'
+    description: '針對低延遲優化，適合長錄音快速轉錄。',
+    maxOutputTokens: 8192,
+    pricing: { input: 0.075, audioInput: 0.075, output: 0.30 }
   },
   { 
     id: 'gemini-2.0-flash-thinking-exp-01-21', 
     name: 'Gemini 2.0 Flash Thinking (推理)', 
-    description: '具備更強的邏輯推理能力，適合複雜語境。'
+    description: '具備更強的邏輯推理能力，適合複雜語境。',
+    maxOutputTokens: 65536,
+    pricing: { input: 0.10, audioInput: 0.70, output: 0.40 }
   }
 ];
 
+// Output limit requested for every transcription call
+export const MAX_OUTPUT_TOKENS = 65536;
+
+// Gemini tokenizes media at a fixed rate regardless of content
+export const AUDIO_TOKENS_PER_SECOND = 32;
+export const VIDEO_TOKENS_PER_SECOND = 263; // 1 fps frames (258) + audio track
+
 export const LANGUAGES = [
   { 
     id: 'yue', 
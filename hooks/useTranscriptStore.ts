@@ -0,0 +1,102 @@
+import { useCallback, useMemo, useState } from 'react';
+import { TranscriptDocument } from '../types';
+import { parseTranscript, serializeTranscript } from '../services/transcriptDocument';
+
+const MAX_HISTORY = 100;
+
+export type TranscriptOperation = (doc: TranscriptDocument) => TranscriptDocument;
+
+export interface ApplyOptions {
+  // Consecutive changes with the same key collapse into one undo step
+  // (typing in one field, or every update streamed by one job)
+  coalesceKey?: string;
+  coalesceMs?: number; // Only coalesce within this window; unlimited when omitted
+}
+
+interface HistoryState {
+  past: TranscriptDocument[];
+  present: TranscriptDocument;
+  future: TranscriptDocument[];
+  lastKey?: string;
+  lastTime: number;
+}
+
+/**
+ * Holds the transcript document with a snapshot-based undo/redo history.
+ * `text` is the serialized document in the existing plain-text format.
+ * `initial` is only read on the first render.
+ */
+export const useTranscriptStore = (initial: () => TranscriptDocument | string) => {
+  const [history, setHistory] = useState<HistoryState>(() => {
+    const value = initial();
+    return {
+      past: [],
+      present: typeof value === 'string' ? parseTranscript(value) : value,
+      future: [],
+      lastTime: 0,
+    };
+  });
+
+  const apply = useCallback((op: TranscriptOperation, options: ApplyOptions = {}) => {
+    setHistory(h => {
+      const next = op(h.present);
+      if (next === h.present) return h;
+
+      const now = Date.now();
+      const coalesce = !!options.coalesceKey && h.lastKey === options.coalesceKey
+        && (options.coalesceMs === undefined || now - h.lastTime < options.coalesceMs);
+
+      return {
+        past: coalesce ? h.past : [...h.past, h.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastKey: options.coalesceKey,
+        lastTime: now,
+      };
+    });
+  }, []);
+
+  // Replaces the whole transcript from text, keeping IDs of unchanged lines
+  const setText = useCallback((text: string, options?: ApplyOptions) => {
+    apply(doc => serializeTranscript(doc) === text ? doc : parseTranscript(text, doc), options);
+  }, [apply]);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        lastTime: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        lastTime: 0,
+      };
+    });
+  }, []);
+
+  const text = useMemo(() => serializeTranscript(history.present), [history.present]);
+
+  return {
+    document: history.present,
+    text,
+    apply,
+    setText,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
+
+export type TranscriptStore = ReturnType<typeof useTranscriptStore>;
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualRowsOptions {
+  count: number;
+  getKey: (index: number) => string;
+  estimateSize: (index: number) => number;
+  scrollRef: React.RefObject<HTMLElement>;
+  overscan?: number; // Extra pixels rendered above and below the viewport
+  headerHeight?: number; // Sticky content above the first row (e.g. a table header)
+  enabled?: boolean;
+}
+
+const DEFAULT_OVERSCAN = 600;
+
+/**
+ * Windowing for variable-height rows inside a scroll container. Only the rows
+ * around the viewport are rendered; the rest is replaced by top/bottom padding.
+ * Row heights start from an estimate and are corrected by measuring mounted rows
+ * (attach `measureRef(key)` to each rendered row).
+ */
+export const useVirtualRows = ({ count, getKey, estimateSize, scrollRef, overscan = DEFAULT_OVERSCAN, headerHeight = 0, enabled = true }: VirtualRowsOptions) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const sizes = useRef(new Map<string, number>());
+  const elements = useRef(new Map<string, Element>());
+  const frame = useRef<number | null>(null);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !enabled) return;
+    const onScroll = () => setScrollTop(el.scrollTop);
+    const resize = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    el.addEventListener('scroll', onScroll, { passive: true });
+    resize.observe(el);
+    setScrollTop(el.scrollTop);
+    setViewportHeight(el.clientHeight);
+    return () => {
+      el.removeEventListener('scroll', onScroll);
+      resize.disconnect();
+    };
+  }, [scrollRef, enabled]);
+
+  // One observer for all rows; measurements are batched into a single re-render per frame
+  const observer = useMemo(() => new ResizeObserver(entries => {
+    let changed = false;
+    entries.forEach(entry => {
+      const key = (entry.target as HTMLElement).dataset.key;
+      if (!key) return;
+      const height = Math.round(entry.target.getBoundingClientRect().height);
+      if (height > 0 && sizes.current.get(key) !== height) {
+        sizes.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed && frame.current === null) {
+      frame.current = requestAnimationFrame(() => {
+        frame.current = null;
+        setMeasureVersion(v => v + 1);
+      });
+    }
+  }), []);
+
+  useEffect(() => () => {
+    observer.disconnect();
+    if (frame.current !== null) cancelAnimationFrame(frame.current);
+  }, [observer]);
+
+  // One stable callback per key, so re-renders do not unobserve and re-observe every row
+  const refCallbacks = useRef(new Map<string, (el: HTMLElement | null) => void>());
+
+  const measureRef = useCallback((key: string) => {
+    const cached = refCallbacks.current.get(key);
+    if (cached) return cached;
+    const callback = (el: HTMLElement | null) => {
+      const previous = elements.current.get(key);
+      if (previous && previous !== el) observer.unobserve(previous);
+      if (el) {
+        el.dataset.key = key;
+        elements.current.set(key, el);
+        observer.observe(el);
+      } else {
+        elements.current.delete(key);
+        refCallbacks.current.delete(key);
+      }
+    };
+    refCallbacks.current.set(key, callback);
+    return callback;
+  }, [observer]);
+
+  // offsets[i] is the top of row i; offsets[count] is the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (sizes.current.get(getKey(i)) ?? estimateSize(i));
+    }
+    return result;
+  }, [count, getKey, estimateSize, measureVersion]);
+
+  const findIndex = (top: number) => {
+    let lo = 0;
+    let hi = count;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (offsets[mid + 1] <= top) lo = mid + 1; else hi = mid;
+    }
+    return lo;
+  };
+
+  const total = offsets[count];
+  const start = enabled ? Math.min(count, findIndex(Math.max(0, scrollTop - overscan))) : 0;
+  const end = enabled ? Math.min(count, findIndex(scrollTop + viewportHeight + overscan) + 1) : count;
+
+  const scrollToIndex = useCallback((index: number, align: 'nearest' | 'center' = 'nearest') => {
+    const el = scrollRef.current;
+    if (!el || index < 0 || index >= count) return;
+    const top = offsets[index];
+    const bottom = offsets[index + 1];
+    let target: number | null = null;
+    const viewport = el.clientHeight - headerHeight;
+    if (align === 'center') {
+      target = top - (viewport - (bottom - top)) / 2;
+    } else if (top < el.scrollTop) {
+      target = top;
+    } else if (bottom > el.scrollTop + viewport) {
+      target = bottom - viewport;
+    }
+    if (target !== null) el.scrollTo({ top: Math.max(0, target), behavior: 'smooth' });
+  }, [scrollRef, count, offsets, headerHeight]);
+
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: total - offsets[end],
+    measureRef,
+    scrollToIndex,
+  };
+};
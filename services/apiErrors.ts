@@ -0,0 +1,148 @@
+import { TranscriptionError } from "../types";
+import { ERROR_MESSAGES } from "../constants";
+
+// Normalised view of an API failure, built from structured error fields
+// (HTTP status, google.rpc status, RetryInfo / ErrorInfo details) rather than message text.
+export interface ClassifiedError {
+  type: TranscriptionError['type'];
+  status?: number; // HTTP status code
+  reason?: string; // google.rpc status or ErrorInfo reason, e.g. RESOURCE_EXHAUSTED, API_KEY_INVALID
+  message: string;
+  retryable: boolean; // Same model may succeed after waiting
+  switchModel: boolean; // A different model may succeed
+  retryAfterMs?: number; // Server-provided hint (RetryInfo.retryDelay)
+}
+
+export const STOPPED_MESSAGE = "Transcription stopped by user.";
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+// Extracts the JSON error body that @google/genai embeds in ApiError messages
+const parseErrorBody = (error: any): any => {
+  if (error?.error && typeof error.error === 'object') return error.error;
+  const msg: string = typeof error?.message === 'string' ? error.message : '';
+  const jsonStart = msg.indexOf('{');
+  const jsonEnd = msg.lastIndexOf('}');
+  if (jsonStart === -1 || jsonEnd <= jsonStart) return null;
+  try {
+    const parsed = JSON.parse(msg.substring(jsonStart, jsonEnd + 1));
+    return parsed.error && typeof parsed.error === 'object' ? parsed.error : parsed;
+  } catch (e) {
+    return null;
+  }
+};
+
+// "37s" / "1.5s" (google.protobuf.Duration JSON) -> ms
+const parseDurationMs = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && isFinite(value)) return value * 1000;
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)s?$/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const classifyApiError = (error: any): ClassifiedError => {
+  if (error?.message === STOPPED_MESSAGE) {
+    return { type: 'general', message: STOPPED_MESSAGE, retryable: false, switchModel: false };
+  }
+
+  // Already classified (e.g. thrown by our own upload / safety checks)
+  if (error?.type && error?.message && !error?.status) {
+    return {
+      type: error.type,
+      status: typeof error.code === 'number' ? error.code : undefined,
+      message: error.message,
+      retryable: error.type === 'network' || error.type === 'timeout',
+      switchModel: false,
+    };
+  }
+
+  const body = parseErrorBody(error);
+  const status: number | undefined =
+    (typeof error?.status === 'number' ? error.status : undefined) ??
+    (typeof body?.code === 'number' ? body.code : undefined) ??
+    (typeof error?.response?.status === 'number' ? error.response.status : undefined);
+
+  const details: any[] = Array.isArray(body?.details) ? body.details : [];
+  const errorInfo = details.find(d => String(d?.['@type'] || '').endsWith('google.rpc.ErrorInfo'));
+  const retryInfo = details.find(d => String(d?.['@type'] || '').endsWith('google.rpc.RetryInfo'));
+  const reason: string | undefined = errorInfo?.reason || (typeof body?.status === 'string' ? body.status : undefined);
+  const retryAfterMs = parseDurationMs(retryInfo?.retryDelay);
+
+  const message: string = body?.message || error?.message || ERROR_MESSAGES.GENERAL;
+  const base = { status, reason, message, retryAfterMs };
+
+  if (error?.response?.promptFeedback?.blockReason || error?.blockReason) {
+    return { ...base, type: 'safety', message: ERROR_MESSAGES.SAFETY, retryable: false, switchModel: false };
+  }
+
+  if (reason === 'API_KEY_INVALID' || status === 401 || status === 403) {
+    return { ...base, type: 'auth', retryable: false, switchModel: false };
+  }
+  if (status === 429 || reason === 'RESOURCE_EXHAUSTED') {
+    // Quotas are per model, so another model is worth trying once retries run out
+    return { ...base, type: 'quota', retryable: true, switchModel: true };
+  }
+  if (status === 404) {
+    return {
+      ...base,
+      type: 'general',
+      message: `Selected Model not found or API route unavailable (404). Please try a different model in settings.`,
+      retryable: false,
+      switchModel: true,
+    };
+  }
+  if (status === 400) {
+    // Usually a model that does not support a requested feature (schema, thinking config, file type)
+    return { ...base, type: 'general', retryable: false, switchModel: true };
+  }
+  if (status === 408 || status === 504 || reason === 'DEADLINE_EXCEEDED') {
+    return { ...base, type: 'timeout', retryable: true, switchModel: true };
+  }
+  if (status !== undefined && status >= 500) {
+    return { ...base, type: 'general', retryable: true, switchModel: true };
+  }
+
+  // No HTTP status at all: the request never completed
+  if (!status && (error instanceof TypeError || /fetch|network/i.test(String(error?.message)))) {
+    return { ...base, type: 'network', message: ERROR_MESSAGES.NETWORK, retryable: true, switchModel: false };
+  }
+
+  return { ...base, type: 'general', retryable: false, switchModel: true };
+};
+
+export const toTranscriptionError = (classified: ClassifiedError): TranscriptionError => ({
+  type: classified.type,
+  code: classified.status ?? classified.reason,
+  message: classified.message,
+});
+
+// Exponential backoff with jitter; a server hint wins when present
+export const getRetryDelayMs = (attempt: number, retryAfterMs?: number): number => {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, RETRY_MAX_MS);
+  const exp = RETRY_BASE_MS * Math.pow(2, attempt);
+  return Math.min(exp + Math.round(Math.random() * 1000), RETRY_MAX_MS);
+};
+
+// Server asked us to wait longer than we are willing to block a job for
+export const exceedsRetryWindow = (retryAfterMs?: number) =>
+  retryAfterMs !== undefined && retryAfterMs > RETRY_MAX_MS;
+
+// Resolves after ms, or rejects with the stop error as soon as the signal aborts
+export const waitWithAbort = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject({ type: 'general', message: STOPPED_MESSAGE });
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject({ type: 'general', message: STOPPED_MESSAGE });
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+};
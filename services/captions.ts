@@ -0,0 +1,222 @@
+import { formatSecondsToTime, formatSecondsToVTTTimestamp, parseTimeToSeconds } from "../utils/time";
+import { getSpeakerColor } from "./speakers";
+import { formatSegmentBlock, joinSegmentText } from "./transcriptDocument";
+
+// Caption file export and import (WebVTT, SRT). Exports are built from the table rows,
+// whose times already include the continuation offsets of their file part.
+
+// The fields of a table row that captions need
+export interface CaptionRow {
+  type: 'segment' | 'separator' | 'raw';
+  time: string; // "MM:SS - MM:SS", absolute
+  speaker: string;
+  content: string;
+}
+
+export interface WebVTTOptions {
+  speakerClasses?: boolean; // Add a ".speaker-N" class to voice tags plus a STYLE block with the speaker colours
+}
+
+export interface CaptionImport {
+  text: string; // Transcript in the plain-text format
+  cues: number;
+}
+
+const DEFAULT_CUE_SECONDS = 5; // Segments without an end time
+const MIN_CUE_SECONDS = 3; // End times that are not after the start
+
+// Start / end seconds of a row, or null when it has no usable time
+export const getCueTimes = (time: string): [number, number] | null => {
+  const [start, end] = time.split('-').map(t => t.trim());
+  if (!start) return null;
+  const startSec = parseTimeToSeconds(start);
+  let endSec = end ? parseTimeToSeconds(end) : startSec + DEFAULT_CUE_SECONDS;
+  if (endSec <= startSec) endSec = startSec + MIN_CUE_SECONDS;
+  return [startSec, endSec];
+};
+
+const escapeCueText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const unescapeCueText = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&lrm;|&rlm;/g, '').replace(/&amp;/g, '&');
+
+// NOTE and cue text may not contain "-->"
+const stripArrows = (text: string) => text.replace(/-->/g, '->');
+
+export const buildWebVTT = (rows: CaptionRow[], options: WebVTTOptions = {}): string => {
+  const classes = new Map<string, string>();
+  if (options.speakerClasses) {
+    rows.forEach(row => {
+      if (row.type === 'segment' && row.speaker && !classes.has(row.speaker)) {
+        classes.set(row.speaker, `speaker-${classes.size + 1}`);
+      }
+    });
+  }
+
+  const blocks: string[] = ['WEBVTT'];
+  if (classes.size > 0) {
+    const rules = [...classes].map(([speaker, cls]) => `::cue(.${cls}) { color: ${getSpeakerColor(speaker).hex}; }`);
+    blocks.push(`STYLE\n${rules.join('\n')}`);
+  }
+
+  rows.forEach(row => {
+    if (row.type === 'separator') {
+      if (row.content.trim()) blocks.push(`NOTE ${stripArrows(row.content.trim())}`);
+      return;
+    }
+    if (row.type !== 'segment') return;
+    const times = getCueTimes(row.time);
+    if (!times) return;
+
+    const text = stripArrows(escapeCueText(row.content.trim()));
+    const cls = classes.get(row.speaker);
+    const voice = row.speaker
+      ? `<v${cls ? `.${cls}` : ''} ${escapeCueText(row.speaker).replace(/\s+/g, ' ')}>`
+      : '';
+    blocks.push(`${formatSecondsToVTTTimestamp(times[0])} --> ${formatSecondsToVTTTimestamp(times[1])}\n${voice}${text}`);
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+};
+
+const CUE_TIMING_REGEX = /^((?:\d+:)?\d{1,2}:\d{2}(?:\.\d+)?)\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}(?:\.\d+)?)/;
+const VOICE_TAG_REGEX = /<v(?:\.[^\s>]*)?(?:\s+([^>]*))?>/;
+const SEPARATOR_NOTE_REGEX = /^\[.*\]$/;
+
+/**
+ * Turns a WebVTT file back into transcript lines. The speaker comes from the first
+ * `<v Speaker>` tag of a cue; other markup is dropped. NOTE blocks written by
+ * `buildWebVTT` for separators become separators again, and the following cue
+ * times are made relative to that part's Start offset.
+ */
+export const parseWebVTT = (input: string): CaptionImport => {
+  const normalized = input.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  if (!/^WEBVTT(?:[ \t]|\n|$)/.test(normalized)) return { text: '', cues: 0 };
+
+  const lines: string[] = [];
+  let offset = 0;
+  let cues = 0;
+
+  normalized.split(/\n[ \t]*\n/).slice(1).forEach(block => {
+    const blockLines = block.split('\n').filter(l => l.trim());
+    if (blockLines.length === 0) return;
+    const first = blockLines[0].trim();
+
+    if (/^NOTE(?:\s|$)/.test(first)) {
+      const note = [first.slice(4), ...blockLines.slice(1)].join(' ').trim();
+      if (SEPARATOR_NOTE_REGEX.test(note)) {
+        lines.push(`--- ${note} ---`);
+        const start = note.match(/Start:\s*(\d{1,2}:\d{2}(?::\d{2})?)/);
+        offset = start ? parseTimeToSeconds(start[1]) : offset;
+      }
+      return;
+    }
+    if (/^(STYLE|REGION)(?:\s|$)/.test(first)) return;
+
+    const timingIndex = blockLines.findIndex(l => l.includes('-->'));
+    const timing = timingIndex === -1 ? null : blockLines[timingIndex].trim().match(CUE_TIMING_REGEX);
+    if (!timing) return;
+
+    let speaker = '';
+    const text = blockLines.slice(timingIndex + 1).reduce((acc, line) => {
+      const voice = line.match(VOICE_TAG_REGEX);
+      if (voice && !speaker) speaker = unescapeCueText((voice[1] || '').trim());
+      const plain = unescapeCueText(line.replace(/<[^>]*>/g, '')).trim();
+      return joinSegmentText(acc, plain);
+    }, '');
+
+    const start = formatSecondsToTime(parseTimeToSeconds(timing[1]) - offset);
+    const end = formatSecondsToTime(parseTimeToSeconds(timing[2]) - offset);
+    lines.push(formatSegmentBlock({ start, end, speaker, text }));
+    cues++;
+  });
+
+  return { text: lines.join('\n'), cues };
+};
+
+const SRT_TIMING_REGEX = /^(\d{1,2}:\d{2}:\d{2}(?:[,.]\d{1,3})?)\s*-->\s*(\d{1,2}:\d{2}:\d{2}(?:[,.]\d{1,3})?)/;
+// "Name: text", "- Name: text" or "Name：text"; a digit or "/" after the colon means a time or URL,
+// an opening quote means quoted speech ("佢同我講：「聽日見」")
+const SPEAKER_PREFIX_REGEX = /^(?:-\s*)?([^\s:：\d][^:：]{0,39}?)\s*[:：](?![\d/「『"“])\s*(.*)$/;
+const SPEAKER_MIN_CUES = 2; // A label must lead this many cues to count as a speaker
+
+interface SrtCue {
+  start: string;
+  end: string;
+  lines: string[]; // Tags removed
+}
+
+const stripDialogueDash = (line: string) => line.replace(/^-\s*/, '');
+
+/**
+ * Turns an SRT file into transcript lines. Cue numbers are optional, times are
+ * "HH:MM:SS,mmm", and cue text may span several lines. A "Speaker:" prefix on the
+ * first line of a cue, or on a "- " dialogue line, becomes the segment speaker, but
+ * only for labels that lead several cues or match `knownSpeakers`; other colons are
+ * left in the text. A labelled dialogue line starts its own segment with the same times.
+ */
+export const parseSRT = (input: string, knownSpeakers: string[] = []): CaptionImport => {
+  const normalized = input.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const cues: SrtCue[] = [];
+
+  normalized.split(/\n[ \t]*\n/).forEach(block => {
+    const blockLines = block.split('\n').map(l => l.trim()).filter(Boolean);
+    const timingIndex = blockLines.findIndex(l => SRT_TIMING_REGEX.test(l));
+    if (timingIndex === -1) return;
+    const timing = blockLines[timingIndex].match(SRT_TIMING_REGEX)!;
+    const lines = blockLines.slice(timingIndex + 1)
+      // Drop <i>/<font> tags and ASS overrides such as {\an8}
+      .map(line => line.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').trim())
+      .filter(Boolean);
+    if (lines.length === 0) return;
+    cues.push({
+      start: formatSecondsToTime(parseTimeToSeconds(timing[1].replace(',', '.'))),
+      end: formatSecondsToTime(parseTimeToSeconds(timing[2].replace(',', '.'))),
+      lines,
+    });
+  });
+
+  // Speaker label of a line, if the line is in a position where a label may appear
+  const labelOf = (line: string, index: number) => {
+    if (index > 0 && !line.startsWith('-')) return null;
+    const prefixed = line.match(SPEAKER_PREFIX_REGEX);
+    return prefixed ? { speaker: prefixed[1].trim(), text: prefixed[2] } : null;
+  };
+
+  const labelCues = new Map<string, number>();
+  cues.forEach(cue => {
+    new Set(cue.lines.map((line, i) => labelOf(line, i)?.speaker).filter(Boolean)).forEach(label => {
+      labelCues.set(label!, (labelCues.get(label!) || 0) + 1);
+    });
+  });
+  const known = new Set(knownSpeakers.map(s => s.trim()).filter(Boolean));
+  const isSpeaker = (label: string) => known.has(label) || (labelCues.get(label) || 0) >= SPEAKER_MIN_CUES;
+
+  const lines: string[] = [];
+  cues.forEach(cue => {
+    const utterances: { speaker: string; text: string }[] = [];
+    cue.lines.forEach((line, i) => {
+      const label = labelOf(line, i);
+      if (label && isSpeaker(label.speaker)) {
+        utterances.push({ speaker: label.speaker, text: label.text });
+      } else if (utterances.length === 0) {
+        utterances.push({ speaker: '', text: stripDialogueDash(line) });
+      } else {
+        const last = utterances[utterances.length - 1];
+        last.text = joinSegmentText(last.text, stripDialogueDash(line));
+      }
+    });
+    utterances.forEach(u => lines.push(formatSegmentBlock({ start: cue.start, end: cue.end, ...u })));
+  });
+
+  return { text: lines.join('\n'), cues: cues.length };
+};
+
+const VTT_CLASSES_STORAGE_KEY = 'cai_vtt_speaker_classes';
+
+export const loadVttSpeakerClasses = (): boolean => localStorage.getItem(VTT_CLASSES_STORAGE_KEY) === '1';
+
+export const saveVttSpeakerClasses = (enabled: boolean) => {
+  localStorage.setItem(VTT_CLASSES_STORAGE_KEY, enabled ? '1' : '0');
+};
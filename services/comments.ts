@@ -0,0 +1,125 @@
+import { CommentThread, TranscriptComment, TranscriptDocument, TranscriptSegmentBlock } from "../types";
+
+// Comment threads attached to segments (stored in segment meta, so they follow
+// the segment through edits, undo/redo and persistence).
+
+const AUTHOR_STORAGE_KEY = 'cai_comment_author';
+const EXPORT_MODE_STORAGE_KEY = 'cai_comment_export';
+
+// How comments are included in CSV / TXT exports
+export type CommentExportMode = 'none' | 'column' | 'footnotes';
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadCommentAuthor = (): string => localStorage.getItem(AUTHOR_STORAGE_KEY) || '';
+
+export const saveCommentAuthor = (author: string) => {
+  localStorage.setItem(AUTHOR_STORAGE_KEY, author.trim());
+};
+
+export const loadCommentExportMode = (): CommentExportMode => {
+  const value = localStorage.getItem(EXPORT_MODE_STORAGE_KEY);
+  return value === 'column' || value === 'footnotes' ? value : 'none';
+};
+
+export const saveCommentExportMode = (mode: CommentExportMode) => {
+  localStorage.setItem(EXPORT_MODE_STORAGE_KEY, mode);
+};
+
+const createComment = (author: string, text: string): TranscriptComment => ({
+  id: newId(),
+  author: author.trim() || '匿名',
+  text: text.trim(),
+  createdAt: Date.now(),
+});
+
+const updateThreads = (
+  doc: TranscriptDocument,
+  segmentId: string,
+  update: (threads: CommentThread[]) => CommentThread[]
+): TranscriptDocument => {
+  const index = doc.blocks.findIndex(b => b.id === segmentId);
+  const block = doc.blocks[index];
+  if (!block || block.type !== 'segment') return doc;
+
+  const { threads: current = [], ...rest } = block.meta || {};
+  const threads = update(current);
+  const meta = threads.length > 0 ? { ...rest, threads } : rest;
+  const blocks = [...doc.blocks];
+  blocks[index] = { ...block, meta: Object.keys(meta).length > 0 ? meta : undefined };
+  return { ...doc, blocks, updatedAt: Date.now() };
+};
+
+export const addThread = (doc: TranscriptDocument, segmentId: string, author: string, text: string): TranscriptDocument =>
+  text.trim()
+    ? updateThreads(doc, segmentId, threads => [...threads, { id: newId(), comments: [createComment(author, text)], resolved: false }])
+    : doc;
+
+export const replyToThread = (doc: TranscriptDocument, segmentId: string, threadId: string, author: string, text: string): TranscriptDocument =>
+  text.trim()
+    ? updateThreads(doc, segmentId, threads => threads.map(t =>
+        t.id === threadId ? { ...t, comments: [...t.comments, createComment(author, text)] } : t))
+    : doc;
+
+export const setThreadResolved = (doc: TranscriptDocument, segmentId: string, threadId: string, resolved: boolean, by?: string): TranscriptDocument =>
+  updateThreads(doc, segmentId, threads => threads.map(t => t.id !== threadId ? t : resolved
+    ? { ...t, resolved: true, resolvedBy: by?.trim() || undefined, resolvedAt: Date.now() }
+    : { id: t.id, comments: t.comments, resolved: false }));
+
+export const deleteThread = (doc: TranscriptDocument, segmentId: string, threadId: string): TranscriptDocument =>
+  updateThreads(doc, segmentId, threads => threads.filter(t => t.id !== threadId));
+
+export interface SegmentThreads {
+  segment: TranscriptSegmentBlock;
+  threads: CommentThread[];
+}
+
+// Segments that have comments, in transcript order
+export const getCommentedSegments = (doc: TranscriptDocument): SegmentThreads[] =>
+  doc.blocks
+    .filter((b): b is TranscriptSegmentBlock => b.type === 'segment' && !!b.meta?.threads?.length)
+    .map(segment => ({ segment, threads: segment.meta!.threads! }));
+
+export const countOpenThreads = (threads: CommentThread[] | undefined): number =>
+  (threads || []).filter(t => !t.resolved).length;
+
+// One line per thread for exports: "author: text / author: reply (已解決)"
+export const formatThreadForExport = (thread: CommentThread): string => {
+  const body = thread.comments.map(c => `${c.author}: ${c.text}`).join(' / ');
+  return thread.resolved ? `${body} (已解決)` : body;
+};
+
+// "[n]" markers per segment and the numbered thread texts, in transcript order (footnote export mode)
+export const buildCommentFootnotes = (rows: { id: string; threads?: CommentThread[] }[]) => {
+  const notes: string[] = [];
+  const markers = new Map<string, string>();
+  rows.forEach(row => {
+    if (!row.threads?.length) return;
+    markers.set(row.id, row.threads.map(t => {
+      notes.push(formatThreadForExport(t));
+      return `[${notes.length}]`;
+    }).join(''));
+  });
+  return { notes, markers };
+};
+
+// Trailing "[n]" markers the footnote export adds to segment text
+export const FOOTNOTE_MARKERS_REGEX = /(?:\[\d+\])+$/;
+
+/**
+ * Index of the first note row appended by the CSV footnote export ("[n] note" with
+ * empty time and speaker, numbered 1..n up to the last row), or rows.length if none.
+ */
+export const findFootnoteRows = (rows: string[][]): number => {
+  let expected = -1;
+  for (let i = rows.length - 1; i >= 0; i--) {
+    const cols = rows[i];
+    if (cols.every(c => !c.trim())) continue;
+    const match = !cols[0]?.trim() && !cols[1]?.trim() ? (cols[2] || '').match(/^\[(\d+)\] /) : null;
+    const n = match ? Number(match[1]) : 0;
+    if (n < 1 || (expected !== -1 && n !== expected)) break;
+    if (n === 1) return i;
+    expected = n - 1;
+  }
+  return rows.length;
+};
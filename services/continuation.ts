@@ -0,0 +1,72 @@
+import { parseTimeToSeconds, formatSecondsToTime, LINE_TIME_REGEX } from "../utils/time";
+
+// Follow-up requests used when a response is cut off at maxOutputTokens
+// (or the model stops well before the end of the media).
+
+export const MAX_CONTINUATIONS = 5;
+
+const END_TOLERANCE_SECONDS = 15; // Output ending this close to the media end counts as complete
+const EARLY_STOP_SECONDS = 60; // A normal finish this far short of the end means the model gave up early
+const OVERLAP_TOLERANCE_SECONDS = 1;
+const RECENT_LINES = 20;
+const PROMPT_TAIL_LINES = 5;
+
+export const shouldContinueTranscript = (finishReason: string | undefined, lastEnd: number, mediaDuration?: number): boolean => {
+  if (lastEnd <= 0) return false; // Nothing timestamped to continue from
+  const durationKnown = mediaDuration !== undefined && mediaDuration > 0;
+  if (durationKnown && lastEnd >= mediaDuration - END_TOLERANCE_SECONDS) return false;
+  if (finishReason === 'MAX_TOKENS') return true;
+  return durationKnown && finishReason === 'STOP' && lastEnd < mediaDuration - EARLY_STOP_SECONDS;
+};
+
+const normalizeLine = (line: string) => line.replace(LINE_TIME_REGEX, '').replace(/\s+/g, '');
+
+/**
+ * Tracks emitted lines across passes. After `beginContinuation()` it rejects
+ * lines the model repeats: anything starting before the previous pass ended,
+ * and repeats of the previous pass's last lines (timestamps ignored) that start
+ * no later than the cutoff, until the first line after it. Short replies that
+ * recur later in the audio are kept.
+ */
+export const createTranscriptMerger = () => {
+  let lastEnd = 0;
+  let cutoff: number | null = null;
+  let previousTail = new Set<string>(); // Last lines of the previous pass, normalized
+  let matchingTail = false; // Until the first line starting after the cutoff
+  const recent: string[] = [];
+
+  return {
+    accept: (line: string): boolean => {
+      const trimmed = line.trim();
+      if (!trimmed) return true;
+      const match = trimmed.match(LINE_TIME_REGEX);
+      const start = match ? parseTimeToSeconds(match[1]) : null;
+
+      if (cutoff !== null && start !== null) {
+        if (start < cutoff - OVERLAP_TOLERANCE_SECONDS) return false;
+        if (start > cutoff) matchingTail = false;
+        if (matchingTail && previousTail.has(normalizeLine(trimmed))) return false;
+      }
+
+      if (match) lastEnd = Math.max(lastEnd, parseTimeToSeconds(match[2] || match[1]));
+      recent.push(trimmed);
+      if (recent.length > RECENT_LINES) recent.shift();
+      return true;
+    },
+    beginContinuation: () => {
+      cutoff = lastEnd;
+      previousTail = new Set(recent.map(normalizeLine));
+      matchingTail = true;
+    },
+    getLastEnd: () => lastEnd,
+    getTail: () => recent.slice(-PROMPT_TAIL_LINES),
+  };
+};
+
+export const buildContinuationPrompt = (from: number, tail: string[], isStructured: boolean): string => {
+  const time = formatSecondsToTime(from);
+  return `The previous response was cut off. The transcript so far ends at ${time}. Its last lines were:
+${tail.join('\n')}
+
+Continue transcribing from ${time} to the end of the audio. Do NOT repeat any line above. Keep the same format and the same speaker labels.${isStructured ? ' Return a JSON array containing only the remaining segments.' : ''}`;
+};
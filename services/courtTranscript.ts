@@ -0,0 +1,227 @@
+import { ExportInfo } from "../types";
+
+// Deposition-style transcript: fixed lines per page, every line numbered, a page
+// header and footer on each page, plus optional cover and certification pages.
+// Lines are wrapped here (not by the browser) so the page layout is exact.
+
+const COURT_OPTIONS_STORAGE_KEY = 'cai_court_export';
+
+export interface CourtRow {
+  type: 'segment' | 'separator' | 'raw';
+  time: string;
+  speaker: string;
+  content: string;
+}
+
+export interface CourtOptions {
+  title: string; // Cover page title; the file name when empty
+  headerText: string;
+  footerText: string;
+  linesPerPage: number;
+  charsPerLine: number; // In half-width columns; CJK characters take two
+  speakerIndent: number; // Columns before the speaker label
+  showTimestamps: boolean;
+  coverPage: boolean;
+  certificationPage: boolean;
+  transcriber: string; // Name on the certification page
+}
+
+export const DEFAULT_COURT_OPTIONS: CourtOptions = {
+  title: '',
+  headerText: '',
+  footerText: '',
+  linesPerPage: 25,
+  charsPerLine: 64,
+  speakerIndent: 8,
+  showTimestamps: false,
+  coverPage: true,
+  certificationPage: true,
+  transcriber: '',
+};
+
+export const LINES_PER_PAGE_RANGE: [number, number] = [10, 60];
+export const CHARS_PER_LINE_RANGE: [number, number] = [40, 100];
+
+export const loadCourtOptions = (): CourtOptions => {
+  try {
+    return { ...DEFAULT_COURT_OPTIONS, ...JSON.parse(localStorage.getItem(COURT_OPTIONS_STORAGE_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_COURT_OPTIONS;
+  }
+};
+
+export const saveCourtOptions = (options: CourtOptions) => {
+  localStorage.setItem(COURT_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+};
+
+const clamp = (value: number, [min, max]: [number, number]) =>
+  Math.min(max, Math.max(min, Math.round(value) || min));
+
+// --- Line layout ---
+
+export interface CourtLine {
+  text: string;
+  time?: string; // Start time, on the first line of an utterance
+  centered?: boolean; // Part separators
+}
+
+const WIDE_CHAR_REGEX = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/;
+
+const charWidth = (char: string) =>
+  WIDE_CHAR_REGEX.test(char) || char.codePointAt(0)! > 0xffff ? 2 : 1;
+
+/**
+ * Wraps text to `width` columns. The first line starts after `firstIndent` columns;
+ * Latin text breaks at spaces where possible, CJK text between any two characters.
+ */
+export const wrapText = (text: string, width: number, firstIndent = 0): string[] => {
+  const lines: string[] = [];
+  let line: string[] = [];
+  let used = firstIndent;
+  let lastSpace = -1;
+
+  Array.from(text.replace(/\s+/g, ' ').trim()).forEach(char => {
+    const w = charWidth(char);
+    if (used + w > width && line.length > 0) {
+      if (char === ' ') {
+        lines.push(line.join(''));
+        line = [];
+        used = 0;
+        lastSpace = -1;
+        return;
+      }
+      if (lastSpace > 0) {
+        const carried = line.slice(lastSpace + 1);
+        lines.push(line.slice(0, lastSpace).join(''));
+        line = carried;
+      } else {
+        lines.push(line.join(''));
+        line = [];
+      }
+      used = line.reduce((n, c) => n + charWidth(c), 0);
+      lastSpace = -1;
+    }
+    if (char === ' ') lastSpace = line.length;
+    line.push(char);
+    used += w;
+  });
+
+  if (line.length > 0 || lines.length === 0) lines.push(line.join(''));
+  return lines;
+};
+
+export const layoutCourtLines = (rows: CourtRow[], options: CourtOptions): CourtLine[] => {
+  const width = clamp(options.charsPerLine, CHARS_PER_LINE_RANGE);
+  const indent = Math.max(0, Math.min(width / 2, options.speakerIndent));
+  const lines: CourtLine[] = [];
+
+  rows.forEach(row => {
+    if (row.type === 'separator') {
+      if (row.content.trim()) lines.push({ text: row.content.trim(), centered: true });
+      return;
+    }
+    if (row.type === 'raw') {
+      if (row.content.trim()) wrapText(row.content, width).forEach(text => lines.push({ text }));
+      return;
+    }
+
+    const label = row.speaker ? `${row.speaker}：` : '';
+    const prefix = ' '.repeat(indent) + label;
+    const prefixWidth = Array.from(prefix).reduce((n, c) => n + charWidth(c), 0);
+    const wrapped = wrapText(row.content, width, prefixWidth);
+    wrapped.forEach((text, i) => lines.push({
+      text: i === 0 ? prefix + text : text,
+      time: i === 0 ? row.time.split('-')[0].trim() || undefined : undefined,
+    }));
+  });
+
+  return lines;
+};
+
+export const paginateLines = (lines: CourtLine[], linesPerPage: number): CourtLine[][] => {
+  const perPage = clamp(linesPerPage, LINES_PER_PAGE_RANGE);
+  const pages: CourtLine[][] = [];
+  for (let i = 0; i < lines.length; i += perPage) pages.push(lines.slice(i, i + perPage));
+  return pages.length > 0 ? pages : [[]];
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const STYLES = `
+@page { size: A4; margin: 18mm 16mm; }
+* { box-sizing: border-box; }
+body { margin: 0; background: #e2e8f0; font-family: "Noto Sans HK", "Microsoft JhengHei", sans-serif; color: #0f172a; }
+.page { width: 178mm; height: 261mm; margin: 8mm auto; padding: 10mm 12mm; background: #fff; display: flex; flex-direction: column; page-break-after: always; break-after: page; box-shadow: 0 1px 4px rgba(0,0,0,.2); }
+.page:last-child { page-break-after: auto; break-after: auto; }
+.header, .footer { display: flex; justify-content: space-between; font-size: 9pt; color: #475569; }
+.header { border-bottom: 1px solid #94a3b8; padding-bottom: 2mm; }
+.footer { border-top: 1px solid #94a3b8; padding-top: 2mm; margin-top: auto; }
+.lines { flex: 1; display: flex; flex-direction: column; justify-content: space-between; padding: 4mm 0; border-left: 2px double #94a3b8; margin-left: 10mm; }
+.line { display: flex; font-family: "Courier New", "MingLiU", "Noto Sans Mono CJK TC", monospace; font-size: 10.5pt; line-height: 1; white-space: pre; }
+.no { width: 10mm; margin-left: -12mm; margin-right: 2mm; text-align: right; color: #64748b; }
+.time { width: 16mm; color: #64748b; font-size: 8pt; }
+.text.centered { flex: 1; text-align: center; color: #475569; }
+.cover, .cert { justify-content: center; text-align: center; }
+.cover h1 { font-size: 20pt; margin: 0 0 10mm; }
+.cover dl { display: grid; grid-template-columns: auto auto; gap: 3mm 6mm; justify-content: center; font-size: 11pt; }
+.cover dt { font-weight: bold; text-align: right; }
+.cover dd { margin: 0; text-align: left; }
+.cert { text-align: left; font-size: 11pt; line-height: 2; }
+.cert h2 { text-align: center; font-size: 16pt; }
+.sign { margin-top: 20mm; display: grid; grid-template-columns: auto 60mm; gap: 8mm 4mm; }
+.sign span:nth-child(even) { border-bottom: 1px solid #0f172a; }
+@media print { body { background: none; } .page { margin: 0; box-shadow: none; width: auto; height: 261mm; } }
+`;
+
+export interface CourtExport extends ExportInfo {
+  rows: CourtRow[];
+  options: CourtOptions;
+}
+
+export const buildCourtTranscriptHtml = ({ rows, options, fileName, languages, model }: CourtExport): string => {
+  const perPage = clamp(options.linesPerPage, LINES_PER_PAGE_RANGE);
+  const pages = paginateLines(layoutCourtLines(rows, options), perPage);
+  const title = options.title.trim() || fileName || '逐字稿';
+  const date = new Date().toLocaleDateString('zh-HK');
+  const total = pages.length + (options.coverPage ? 1 : 0) + (options.certificationPage ? 1 : 0);
+
+  const header = `<div class="header"><span>${escapeHtml(options.headerText || title)}</span><span>${escapeHtml(date)}</span></div>`;
+  const footer = (pageNo: number) =>
+    `<div class="footer"><span>${escapeHtml(options.footerText)}</span><span>第 ${pageNo} 頁，共 ${total} 頁</span></div>`;
+
+  const html: string[] = [];
+  let pageNo = 0;
+
+  if (options.coverPage) {
+    pageNo++;
+    const info: [string, string | undefined][] = [
+      ['檔案', fileName],
+      ['日期', date],
+      ['語言', languages?.join('、')],
+      ['模型', model],
+      ['頁數', `${pages.length} 頁 (每頁 ${perPage} 行)`],
+    ];
+    html.push(`<section class="page cover">${header}<div style="margin:auto 0"><h1>${escapeHtml(title)}</h1><dl>${info
+      .filter(([, v]) => v).map(([k, v]) => `<dt>${k}</dt><dd>${escapeHtml(v!)}</dd>`).join('')}</dl></div>${footer(pageNo)}</section>`);
+  }
+
+  pages.forEach(lines => {
+    pageNo++;
+    const numbered = Array.from({ length: perPage }, (_, i) => {
+      const line = lines[i];
+      const time = options.showTimestamps ? `<span class="time">${escapeHtml(line?.time || '')}</span>` : '';
+      return `<div class="line"><span class="no">${i + 1}</span>${time}<span class="text${line?.centered ? ' centered' : ''}">${escapeHtml(line?.text || '')}</span></div>`;
+    }).join('');
+    html.push(`<section class="page">${header}<div class="lines">${numbered}</div>${footer(pageNo)}</section>`);
+  });
+
+  if (options.certificationPage) {
+    pageNo++;
+    html.push(`<section class="page cert">${header}<div style="margin:auto 0"><h2>謄寫證明</h2><p>本人謹此證明，上述第 ${options.coverPage ? 2 : 1} 至 ${pageNo - 1} 頁為錄音檔案「${escapeHtml(fileName || title)}」之逐字稿，內容據本人所知屬真實及準確。</p><div class="sign"><span>謄寫員：</span><span>${escapeHtml(options.transcriber)}</span><span>簽署：</span><span></span><span>日期：</span><span></span></div></div>${footer(pageNo)}</section>`);
+  }
+
+  return `<!DOCTYPE html><html lang="zh-Hant"><head><meta charset="UTF-8"><title>${escapeHtml(title)}</title><style>${STYLES}</style></head><body>${html.join('')}</body></html>`;
+};
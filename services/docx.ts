@@ -0,0 +1,175 @@
+import { CommentThread, ExportInfo } from "../types";
+import { createZip } from "../utils/zip";
+import { getSpeakerColor } from "./speakers";
+import { CommentExportMode, buildCommentFootnotes, formatThreadForExport } from "./comments";
+
+// Word (.docx) export built in the browser: a header with the job details, then the
+// transcript as a time / speaker / content table, optionally followed by the summary.
+
+const DOCX_OPTIONS_STORAGE_KEY = 'cai_docx_options';
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// The fields of a table row that the document needs (speakers already mapped)
+export interface DocxRow {
+  id: string;
+  type: 'segment' | 'separator' | 'raw';
+  time: string;
+  speaker: string;
+  content: string;
+  threads?: CommentThread[];
+}
+
+export interface DocxOptions {
+  speakerColors: boolean;
+  includeSummary: boolean;
+}
+
+export interface DocxExport extends ExportInfo {
+  rows: DocxRow[];
+  summary?: string;
+  comments: CommentExportMode;
+  options: DocxOptions;
+}
+
+const DEFAULT_OPTIONS: DocxOptions = { speakerColors: true, includeSummary: true };
+
+export const loadDocxOptions = (): DocxOptions => {
+  try {
+    return { ...DEFAULT_OPTIONS, ...JSON.parse(localStorage.getItem(DOCX_OPTIONS_STORAGE_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_OPTIONS;
+  }
+};
+
+export const saveDocxOptions = (options: DocxOptions) => {
+  localStorage.setItem(DOCX_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+};
+
+// --- WordprocessingML ---
+
+const PAGE_WIDTH = 11906; // A4, in twentieths of a point
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1134; // 2 cm
+const CONTENT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2;
+const TIME_COLUMN = 1500;
+const SPEAKER_COLUMN = 1700;
+const COMMENT_COLUMN = 2600;
+
+const escapeXml = (text: string) => text
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface RunStyle {
+  bold?: boolean;
+  color?: string; // Hex without '#'
+  size?: number; // Half-points
+}
+
+const run = (text: string, style: RunStyle = {}) => {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>` : '',
+  ].join('');
+  const body = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${body}</w:r>`;
+};
+
+const paragraph = (runs: string, spacingAfter = 120) =>
+  `<w:p><w:pPr><w:spacing w:after="${spacingAfter}"/></w:pPr>${runs}</w:p>`;
+
+const cell = (width: number, content: string, options: { span?: number; shade?: string } = {}) =>
+  `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${options.span ? `<w:gridSpan w:val="${options.span}"/>` : ''}${options.shade ? `<w:shd w:val="clear" w:color="auto" w:fill="${options.shade}"/>` : ''}</w:tcPr>${paragraph(content, 0)}</w:tc>`;
+
+const BORDER = '<w:top w:val="single" w:sz="4" w:color="CBD5E1"/><w:left w:val="single" w:sz="4" w:color="CBD5E1"/><w:bottom w:val="single" w:sz="4" w:color="CBD5E1"/><w:right w:val="single" w:sz="4" w:color="CBD5E1"/><w:insideH w:val="single" w:sz="4" w:color="CBD5E1"/><w:insideV w:val="single" w:sz="4" w:color="CBD5E1"/>';
+
+const buildTable = ({ rows, comments, options }: DocxExport, markers: Map<string, string>) => {
+  const withComments = comments === 'column';
+  const contentWidth = CONTENT_WIDTH - TIME_COLUMN - SPEAKER_COLUMN - (withComments ? COMMENT_COLUMN : 0);
+  const widths = [TIME_COLUMN, SPEAKER_COLUMN, contentWidth, ...(withComments ? [COMMENT_COLUMN] : [])];
+  const total = widths.length;
+
+  const header = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${['時間', '說話者', '內容', ...(withComments ? ['留言'] : [])]
+    .map((label, i) => cell(widths[i], run(label, { bold: true }), { shade: 'F1F5F9' })).join('')}</w:tr>`;
+
+  const body = rows.map(row => {
+    if (row.type !== 'segment') {
+      if (!row.content.trim()) return '';
+      return `<w:tr>${cell(CONTENT_WIDTH, run(row.content, { color: '64748B' }), { span: total, shade: row.type === 'separator' ? 'F8FAFC' : undefined })}</w:tr>`;
+    }
+    const color = options.speakerColors && row.speaker ? getSpeakerColor(row.speaker).hex.slice(1) : undefined;
+    const cells = [
+      cell(widths[0], run(row.time, { color: '64748B' })),
+      cell(widths[1], run(row.speaker, { bold: true, color })),
+      cell(widths[2], run(row.content + (markers.get(row.id) || ''))),
+    ];
+    if (withComments) {
+      cells.push(cell(widths[3], run((row.threads || []).map(formatThreadForExport).join('\n'), { color: '92400E', size: 18 })));
+    }
+    return `<w:tr><w:trPr><w:cantSplit/></w:trPr>${cells.join('')}</w:tr>`;
+  }).join('');
+
+  return `<w:tbl><w:tblPr><w:tblW w:w="${CONTENT_WIDTH}" w:type="dxa"/><w:tblBorders>${BORDER}</w:tblBorders><w:tblLayout w:type="fixed"/><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr><w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>${header}${body}</w:tbl>`;
+};
+
+// Summary text is Markdown-ish: "#" headings and "**bold**" become bold lines
+const buildSummary = (summary: string) =>
+  summary.split('\n').filter(line => line.trim()).map(line => {
+    const heading = /^\s*#+\s*/.test(line) || /^\s*\*\*.*\*\*\s*$/.test(line);
+    const text = line.replace(/^\s*#+\s*/, '').replace(/\*\*/g, '');
+    return paragraph(run(text, { bold: heading }));
+  }).join('');
+
+const buildDocumentXml = (input: DocxExport) => {
+  // Footnote mode: "[n]" markers in the content and the threads listed after the table
+  const { notes, markers } = input.comments === 'footnotes'
+    ? buildCommentFootnotes(input.rows)
+    : { notes: [], markers: new Map<string, string>() };
+
+  const info: [string, string | undefined][] = [
+    ['檔案', input.fileName],
+    ['日期', new Date().toLocaleDateString('zh-HK')],
+    ['語言', input.languages?.join('、')],
+    ['模型', input.model],
+  ];
+
+  const parts = [
+    paragraph(run(input.fileName || '逐字稿', { bold: true, size: 32 }), 200),
+    ...info.filter(([, value]) => value).map(([label, value]) => paragraph(run(`${label}：`, { bold: true }) + run(value!), 40)),
+    paragraph('', 120),
+    buildTable(input, markers),
+  ];
+
+  if (notes.length > 0) {
+    parts.push(paragraph('', 120), paragraph(run('註', { bold: true, size: 26 })));
+    notes.forEach((note, i) => parts.push(paragraph(run(`[${i + 1}] ${note}`, { size: 18 }), 40)));
+  }
+
+  if (input.options.includeSummary && input.summary?.trim()) {
+    parts.push(`<w:p><w:r><w:br w:type="page"/></w:r></w:p>`, paragraph(run('摘要', { bold: true, size: 28 }), 200), buildSummary(input.summary));
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${parts.join('')}<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// Default font covers Traditional Chinese; 10.5 pt body text
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft JhengHei" w:cs="Calibri"/><w:sz w:val="21"/><w:szCs w:val="21"/><w:lang w:val="en-US" w:eastAsia="zh-HK"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults></w:styles>`;
+
+export const buildDocx = (input: DocxExport): Blob => createZip([
+  { name: '[Content_Types].xml', data: CONTENT_TYPES },
+  { name: '_rels/.rels', data: ROOT_RELS },
+  { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS },
+  { name: 'word/styles.xml', data: STYLES },
+  { name: 'word/document.xml', data: buildDocumentXml(input) },
+], DOCX_MIME);
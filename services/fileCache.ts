@@ -0,0 +1,84 @@
+import { RemoteFileInfo } from "../types";
+
+// Local index of files already uploaded to the Gemini Files API, keyed by content hash,
+// so re-transcribing the same recording (other model / prompt) skips the upload.
+
+const CACHE_STORAGE_KEY = 'cai_file_cache';
+const HASH_BLOCK_SIZE = 8 * 1024 * 1024;
+// Do not hand out a file that expires before a long transcription could finish
+const EXPIRY_SAFETY_MS = 60 * 60 * 1000;
+
+export interface CachedRemoteFile {
+  hash: string;
+  remote: RemoteFileInfo;
+  sourceName: string;
+  sourceSize: number;
+  cachedAt: number;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 content hash computed block by block (hash of the per-block digests),
+ * so a several-hundred-MB recording never has to sit in memory at once.
+ */
+export const hashFileContent = async (file: File, signal?: AbortSignal): Promise<string> => {
+  const digests: Uint8Array[] = [];
+  for (let offset = 0; offset < file.size; offset += HASH_BLOCK_SIZE) {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    const block = await file.slice(offset, offset + HASH_BLOCK_SIZE).arrayBuffer();
+    digests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', block)));
+  }
+
+  const combined = new Uint8Array(digests.length * 32 + 8);
+  digests.forEach((d, i) => combined.set(d, i * 32));
+  new DataView(combined.buffer).setFloat64(digests.length * 32, file.size);
+  return toHex(await crypto.subtle.digest('SHA-256', combined));
+};
+
+const readCache = (): CachedRemoteFile[] => {
+  try {
+    const raw = localStorage.getItem(CACHE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeCache = (entries: CachedRemoteFile[]) => {
+  try {
+    localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.warn("Failed to save file cache", e);
+  }
+};
+
+const isUsable = (entry: CachedRemoteFile, now = Date.now()) => {
+  if (!entry.remote.expirationTime) return true;
+  return new Date(entry.remote.expirationTime).getTime() - now > EXPIRY_SAFETY_MS;
+};
+
+// Drops expired entries as a side effect
+export const getCachedFiles = (): CachedRemoteFile[] => {
+  const entries = readCache();
+  const live = entries.filter(e => !e.remote.expirationTime || new Date(e.remote.expirationTime).getTime() > Date.now());
+  if (live.length !== entries.length) writeCache(live);
+  return live;
+};
+
+export const findCachedFile = (hash: string): CachedRemoteFile | null => {
+  const entry = getCachedFiles().find(e => e.hash === hash);
+  return entry && isUsable(entry) ? entry : null;
+};
+
+export const rememberUploadedFile = (hash: string, remote: RemoteFileInfo, source: File) => {
+  const entries = getCachedFiles().filter(e => e.hash !== hash && e.remote.name !== remote.name);
+  entries.push({ hash, remote, sourceName: source.name, sourceSize: source.size, cachedAt: Date.now() });
+  writeCache(entries);
+};
+
+export const forgetRemoteFile = (remoteName: string) => {
+  writeCache(readCache().filter(e => e.remote.name !== remoteName));
+};
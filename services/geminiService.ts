@@ -1,6 +1,13 @@
 import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { TranscriptionSettings, TranscriptionError } from "../types";
-import { MAX_FILE_SIZE_INLINE, LANGUAGES, ERROR_MESSAGES, AI_MODELS } from "../constants";
+import { TranscriptionSettings, TranscriptionError, TranscriptionHooks, ProviderModel, RemoteFileInfo, TokenUsage } from "../types";
+import { MAX_FILE_SIZE_INLINE, LANGUAGES, ERROR_MESSAGES, AI_MODELS, MAX_OUTPUT_TOKENS } from "../constants";
+import { TRANSCRIPT_RESPONSE_SCHEMA, STRUCTURED_OUTPUT_INSTRUCTION, createSegmentStreamParser, formatSegmentLine } from "./structuredTranscript";
+import { classifyApiError, toTranscriptionError, getRetryDelayMs, exceedsRetryWindow, waitWithAbort, ClassifiedError, STOPPED_MESSAGE } from "./apiErrors";
+import { hashFileContent, findCachedFile, rememberUploadedFile, forgetRemoteFile } from "./fileCache";
+import { getSelectedTerms, buildGlossaryInstruction } from "./glossaryStore";
+import { createTranscriptMerger, shouldContinueTranscript, buildContinuationPrompt, MAX_CONTINUATIONS } from "./continuation";
+
+const MAX_ATTEMPTS_PER_MODEL = 3;
 
 // Helper to extract clean message from JSON error string
 const cleanErrorMessage = (msg: string): string => {
@@ -46,11 +53,100 @@ const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: s
   });
 };
 
-// Helper to upload large file to Gemini Files API via REST (Frontend workaround)
-const uploadFileToGemini = async (file: File, apiKey: string): Promise<string> => {
+const FILES_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/files';
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // Must be a multiple of 256 KiB
+const MAX_UPLOAD_RETRIES = 5;
+
+const toRemoteFileInfo = (raw: any): RemoteFileInfo => ({
+  name: raw.name,
+  uri: raw.uri,
+  displayName: raw.displayName,
+  mimeType: raw.mimeType,
+  sizeBytes: raw.sizeBytes !== undefined ? Number(raw.sizeBytes) : undefined,
+  state: raw.state,
+  createTime: raw.createTime,
+  expirationTime: raw.expirationTime,
+});
+
+const toTokenUsage = (model: string, meta: any): TokenUsage => ({
+  model,
+  inputTokens: meta.promptTokenCount || 0,
+  audioInputTokens: (meta.promptTokensDetails || [])
+    .filter((d: any) => d.modality === 'AUDIO')
+    .reduce((sum: number, d: any) => sum + (d.tokenCount || 0), 0),
+  outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+});
+
+const requireApiKey = (): string => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) throw { type: 'auth', message: "API Key not found." } as TranscriptionError;
+  return apiKey;
+};
+
+// --- Files API management ---
+
+// Returns null when the file no longer exists (expired or deleted)
+export const getGeminiFile = async (name: string, signal?: AbortSignal): Promise<RemoteFileInfo | null> => {
+  const apiKey = requireApiKey();
+  const res = await fetch(`${FILES_API_BASE}/${name.split('/').pop()}?key=${apiKey}`, { signal });
+  if (res.status === 403 || res.status === 404) return null;
+  if (!res.ok) throw new Error(`Get file failed: ${res.status} - ${cleanErrorMessage(await res.text())}`);
+  return toRemoteFileInfo(await res.json());
+};
+
+export const listGeminiFiles = async (): Promise<RemoteFileInfo[]> => {
+  const apiKey = requireApiKey();
+  const files: RemoteFileInfo[] = [];
+  let pageToken = '';
+
+  do {
+    const res = await fetch(`${FILES_API_BASE}?pageSize=100&key=${apiKey}${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`);
+    if (!res.ok) throw new Error(`List files failed: ${res.status} - ${cleanErrorMessage(await res.text())}`);
+    const json = await res.json();
+    (json.files || []).forEach((f: any) => files.push(toRemoteFileInfo(f)));
+    pageToken = json.nextPageToken || '';
+  } while (pageToken);
+
+  return files;
+};
+
+export const deleteGeminiFile = async (name: string): Promise<void> => {
+  const apiKey = requireApiKey();
+  const res = await fetch(`${FILES_API_BASE}/${name.split('/').pop()}?key=${apiKey}`, { method: 'DELETE' });
+  // Already gone is as good as deleted
+  if (!res.ok && res.status !== 404 && res.status !== 403) {
+    throw new Error(`Delete file failed: ${res.status} - ${cleanErrorMessage(await res.text())}`);
+  }
+  forgetRemoteFile(name);
+};
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+}
+
+// Open resumable sessions, keyed by file identity, so a stopped upload continues where it left off
+const uploadSessions = new Map<string, string>();
+const getUploadSessionKey = (file: File) => `${file.name}|${file.size}|${file.lastModified}`;
+
+const stoppedError = () => ({ type: 'general', message: STOPPED_MESSAGE } as TranscriptionError);
+
+// Asks the server how many bytes of the session it already has
+const queryUploadOffset = async (uploadUrl: string, signal?: AbortSignal): Promise<{ received: number; final: boolean } | null> => {
+  const res = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: { 'X-Goog-Upload-Command': 'query' },
+    signal,
+  });
+  if (!res.ok) return null;
+  const status = res.headers.get('x-goog-upload-status');
+  const received = parseInt(res.headers.get('x-goog-upload-size-received') || '0', 10);
+  return { received: isNaN(received) ? 0 : received, final: status === 'final' };
+};
+
+const startUploadSession = async (file: File, apiKey: string, signal?: AbortSignal): Promise<string> => {
   const metadata = { file: { displayName: file.name } };
-  
-  // 1. Initiate Resumable Upload
+
   const initRes = await fetch(
     `https://generativelanguage.googleapis.com/upload/v1beta/files?key=${apiKey}`,
     {
@@ -63,6 +159,7 @@ const uploadFileToGemini = async (file: File, apiKey: string): Promise<string> =
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(metadata),
+      signal,
     }
   );
 
@@ -75,59 +172,167 @@ const uploadFileToGemini = async (file: File, apiKey: string): Promise<string> =
   if (!uploadUrlHeader) throw new Error("Failed to initiate upload: Missing upload URL");
 
   // Fix for 400 Error: Ensure API Key is attached to the upload URL
-  const uploadUrl = uploadUrlHeader.includes('key=') 
+  return uploadUrlHeader.includes('key=') 
     ? uploadUrlHeader 
     : `${uploadUrlHeader}&key=${apiKey}`;
+};
 
-  // 2. Upload Bytes
-  const uploadRes = await fetch(uploadUrl, {
-    method: 'POST',
-    headers: {
-      'X-Goog-Upload-Offset': '0',
-      'X-Goog-Upload-Command': 'upload, finalize',
-    },
-    body: file,
-  });
+/**
+ * Uploads a large file to the Gemini Files API with the X-Goog-Upload resumable
+ * protocol: the file is sent in 8 MB chunks (`upload` command, `upload, finalize`
+ * for the last one) at explicit offsets. After a dropped connection the server
+ * offset is queried and the upload continues from there. Every request,
+ * including the PROCESSING poll loop, honours the abort signal.
+ */
+export const uploadFileToGemini = async (file: File, apiKey: string, options: UploadOptions = {}): Promise<RemoteFileInfo> => {
+  const { signal, onProgress } = options;
+  const sessionKey = getUploadSessionKey(file);
 
-  if (!uploadRes.ok) {
-    const errorText = await uploadRes.text();
-    throw new Error(`Upload bytes failed: ${uploadRes.status} - ${cleanErrorMessage(errorText)}`);
-  }
+  try {
+    // 1. Reuse an open session (after a stop or a failed job) or initiate a new one
+    let uploadUrl = uploadSessions.get(sessionKey);
+    let offset = 0;
+
+    if (uploadUrl) {
+      const state = await queryUploadOffset(uploadUrl, signal).catch(() => null);
+      if (state && !state.final) {
+        offset = state.received;
+      } else {
+        uploadUrl = undefined; // Expired or already finalized: start over
+      }
+    }
+    if (!uploadUrl) {
+      uploadUrl = await startUploadSession(file, apiKey, signal);
+      uploadSessions.set(sessionKey, uploadUrl);
+    }
 
-  const uploadResult = await uploadRes.json();
-  const fileUri = uploadResult.file.uri;
-  const fileState = uploadResult.file.state;
-
-  // 3. Wait for processing if necessary (Active)
-  if (fileState === 'PROCESSING') {
-    let attempts = 0;
-    while (attempts < 60) { // Wait up to 2 minutes
-      await new Promise(r => setTimeout(r, 2000));
-      const getRes = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/files/${uploadResult.file.name.split('/').pop()}?key=${apiKey}`
-      );
-      
-      if (!getRes.ok) {
-         console.warn("Check file status failed, retrying...");
-         continue;
+    onProgress?.(offset, file.size);
+
+    // 2. Upload bytes chunk by chunk
+    let uploadResult: any = null;
+    let retries = 0;
+
+    while (!uploadResult) {
+      if (signal?.aborted) throw stoppedError();
+
+      const end = Math.min(offset + UPLOAD_CHUNK_SIZE, file.size);
+      const isLast = end >= file.size;
+
+      try {
+        const chunkRes = await fetch(uploadUrl, {
+          method: 'POST',
+          headers: {
+            'X-Goog-Upload-Offset': offset.toString(),
+            'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+          },
+          body: file.slice(offset, end),
+          signal,
+        });
+
+        if (!chunkRes.ok) {
+          const errorText = await chunkRes.text();
+          // 4xx (other than timeout / rate limit) will not get better by retrying
+          if (chunkRes.status < 500 && chunkRes.status !== 408 && chunkRes.status !== 429) {
+            uploadSessions.delete(sessionKey);
+            throw Object.assign(new Error(`Upload bytes failed: ${chunkRes.status} - ${cleanErrorMessage(errorText)}`), { fatal: true });
+          }
+          throw new Error(`Upload bytes failed: ${chunkRes.status}`);
+        }
+
+        if (isLast) {
+          uploadResult = await chunkRes.json();
+        }
+        offset = end;
+        retries = 0;
+        onProgress?.(offset, file.size);
+      } catch (e: any) {
+        if (signal?.aborted || e?.name === 'AbortError') throw stoppedError();
+        if (e?.fatal || retries >= MAX_UPLOAD_RETRIES) throw e;
+
+        retries++;
+        const waitMs = getRetryDelayMs(retries - 1);
+        console.warn(`Upload chunk at ${offset} failed, resuming in ${waitMs}ms`, e);
+        if (signal) await waitWithAbort(waitMs, signal);
+        else await new Promise(r => setTimeout(r, waitMs));
+
+        // Resume from what the server actually has
+        const state = await queryUploadOffset(uploadUrl, signal).catch(() => null);
+        if (state) offset = state.received;
       }
+    }
+
+    uploadSessions.delete(sessionKey);
+    const uploaded = toRemoteFileInfo(uploadResult.file);
 
-      const getJson = await getRes.json();
-      if (getJson.state === 'ACTIVE') return getJson.uri;
-      if (getJson.state === 'FAILED') throw new Error("File processing failed on server");
-      attempts++;
+    // 3. Wait for processing if necessary (Active)
+    if (uploaded.state === 'PROCESSING') {
+      let attempts = 0;
+      while (attempts < 60) { // Wait up to 2 minutes
+        if (signal) await waitWithAbort(2000, signal);
+        else await new Promise(r => setTimeout(r, 2000));
+
+        const getRes = await fetch(
+          `${FILES_API_BASE}/${uploaded.name.split('/').pop()}?key=${apiKey}`,
+          { signal }
+        );
+        
+        if (!getRes.ok) {
+           console.warn("Check file status failed, retrying...");
+           attempts++;
+           continue;
+        }
+
+        const getJson = await getRes.json();
+        if (getJson.state === 'ACTIVE') return toRemoteFileInfo(getJson);
+        if (getJson.state === 'FAILED') throw new Error("File processing failed on server");
+        attempts++;
+      }
+      throw new Error("File processing timed out");
     }
-    throw new Error("File processing timed out");
+
+    return uploaded;
+  } catch (e: any) {
+    if (signal?.aborted || e?.name === 'AbortError') throw stoppedError();
+    throw e;
   }
+};
 
-  return fileUri;
+/**
+ * Returns a usable remote copy of the file: a cached upload with the same content
+ * hash when the server still has it ACTIVE, otherwise a fresh upload that is then cached.
+ */
+const getOrUploadFile = async (file: File, apiKey: string, signal: AbortSignal, hooks: TranscriptionHooks): Promise<RemoteFileInfo> => {
+  let hash: string | null = null;
+  try {
+    hash = await hashFileContent(file, signal);
+    const cached = findCachedFile(hash);
+    if (cached) {
+      const remote = await getGeminiFile(cached.remote.name, signal).catch(() => null);
+      if (remote?.state === 'ACTIVE') {
+        hooks.onRemoteFile?.(remote, true);
+        return remote;
+      }
+      forgetRemoteFile(cached.remote.name);
+    }
+  } catch (e: any) {
+    if (signal.aborted) throw stoppedError();
+    // Hashing is an optimisation only; fall through to a normal upload
+    console.warn("File cache lookup failed", e);
+  }
+
+  const remote = await uploadFileToGemini(file, apiKey, { signal, onProgress: hooks.onUploadProgress });
+  if (hash) rememberUploadedFile(hash, remote, file);
+  hooks.onRemoteFile?.(remote, false);
+  return remote;
 };
 
 export const transcribeMedia = async (
   file: File,
   settings: TranscriptionSettings,
   onProgress: (text: string) => void,
-  signal: AbortSignal
+  signal: AbortSignal,
+  hooks: TranscriptionHooks = {},
+  mediaDuration?: number
 ) => {
   // CRITICAL FIX: Directly access process.env.API_KEY.
   const apiKey = process.env.API_KEY;
@@ -151,12 +356,10 @@ export const transcribeMedia = async (
   const langNames = selectedLangs.map(l => l.name).join(', ');
   const langInstructions = selectedLangs.map(l => `### ${l.name} Rules:\n${l.instruction}`).join('\n\n');
 
-  // STRONGER PROMPT FOR DIARIZATION
-  let systemInstruction = `
-You are a professional Transcriber. 
-Your task is to transcribe the **ENTIRE** audio/video file into text with high accuracy.
-The audio may contain one or more of the following languages: **${langNames}**.
+  const isStructured = settings.outputMode !== 'text';
 
+  // STRONGER PROMPT FOR DIARIZATION
+  const textFormatRules = `
 **CRITICAL RULE: STRICT OUTPUT FORMAT**
 You MUST use the following format for EVERY SINGLE LINE. Do not change it.
 \`[MM:SS - MM:SS] Speaker Name: Content\`
@@ -174,15 +377,20 @@ CORRECT: \`[00:00 - 00:05] Speaker 1: Hello, how are you?\`
 CORRECT: \`[00:05 - 00:10] John: I am fine, thank you.\`
 WRONG:   \`[00:00 - 00:05] Hello, how are you?\` (Missing speaker)
 WRONG:   \`Speaker 1: Hello.\` (Missing timestamps)
+`;
 
+  let systemInstruction = `
+You are a professional Transcriber. 
+Your task is to transcribe the **ENTIRE** audio/video file into text with high accuracy.
+The audio may contain one or more of the following languages: **${langNames}**.
+${isStructured ? STRUCTURED_OUTPUT_INSTRUCTION : textFormatRules}
 **Language Rules:**
 ${langInstructions}
 
 **Transcription Rules:**
 - Transcribe word-for-word.
 - Capture the FULL duration. Do not stop early.
-- If there is a long silence, write \`[MM:SS - MM:SS] System: [Silence]\`.
-`;
+${isStructured ? '' : '- If there is a long silence, write `[MM:SS - MM:SS] System: [Silence]`.\n'}`;
 
   // Additional settings injection
   if (settings.speakers.length > 0) {
@@ -197,6 +405,8 @@ If you hear a distinct voice matching the sequence (1st new voice, 2nd new voice
 `;
   }
 
+  systemInstruction += buildGlossaryInstruction(getSelectedTerms(settings.glossaryIds));
+
   if (settings.customPrompt && settings.customPrompt.trim()) {
     systemInstruction += `\n\n**ADDITIONAL USER INSTRUCTIONS (Override everything else):**\n${settings.customPrompt.trim()}`;
   }
@@ -207,14 +417,15 @@ If you hear a distinct voice matching the sequence (1st new voice, 2nd new voice
     // 2. Handle File Upload (Inline vs Cloud)
     if (file.size > MAX_FILE_SIZE_INLINE) {
       try {
-        const fileUri = await uploadFileToGemini(file, apiKey);
+        const remote = await getOrUploadFile(file, apiKey, signal, hooks);
         contentPart = {
           fileData: {
-            mimeType: file.type || 'application/octet-stream',
-            fileUri: fileUri
+            mimeType: remote.mimeType || file.type || 'application/octet-stream',
+            fileUri: remote.uri
           }
         };
       } catch (e: any) {
+        if (signal.aborted) throw e;
         console.error("Upload failed", e);
         throw { 
           type: 'network', 
@@ -230,101 +441,198 @@ If you hear a distinct voice matching the sequence (1st new voice, 2nd new voice
     // 3. Generate Stream with Model Selection & Fallback
     const selectedModel = settings.model || 'gemini-3-pro-preview';
     const fallbackModels = AI_MODELS.map(m => m.id).filter(id => id !== selectedModel);
-    const modelsToTry = [selectedModel, ...fallbackModels];
+    let modelsToTry = [selectedModel, ...fallbackModels];
+
+    const merger = createTranscriptMerger();
+
+    // One request (with retries and model fallback); resolves with the finish reason, or null when stopped
+    const runPass = async (continueFrom: number | null): Promise<string | null> => {
+      let lastFailure: ClassifiedError | null = null;
+
+      const userPrompt = continueFrom !== null
+        ? buildContinuationPrompt(continueFrom, merger.getTail(), isStructured)
+        : isStructured
+          ? "Transcribe audio. Return a JSON array of segments with start, end, speaker, text and language. Identify distinct speakers (Speaker 1, Speaker 2) if names are unknown."
+          : "Transcribe audio. STRICT FORMAT: `[Start-End] Speaker: Content`. Identify distinct speakers (Speaker 1, Speaker 2) if names are unknown.";
+
+      for (const modelName of modelsToTry) {
+        for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_MODEL; attempt++) {
+          if (signal.aborted) return null;
+          // Once text has reached the caller a retry would duplicate it; the job layer resumes instead
+          let emitted = false;
+          // Billed even when the attempt is stopped or fails mid-stream, so it is reported either way
+          let usageMetadata: any = null;
+
+          try {
+            const config: any = {
+              systemInstruction: systemInstruction,
+              temperature: 0.2, // Low temperature for factual transcription
+              maxOutputTokens: MAX_OUTPUT_TOKENS,
+              safetySettings: [
+                { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+                { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+                { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+                { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+              ]
+            };
 
-    let lastError: any;
+            if (modelName.includes('gemini-3') || modelName.includes('thinking')) {
+               config.thinkingConfig = { thinkingBudget: 0 };
+            }
 
-    for (const modelName of modelsToTry) {
-      try {
-        if (signal.aborted) break;
-
-        const config: any = {
-          systemInstruction: systemInstruction,
-          temperature: 0.2, // Low temperature for factual transcription
-          maxOutputTokens: 65536,
-          safetySettings: [
-            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-          ]
-        };
+            if (isStructured) {
+               config.responseMimeType = 'application/json';
+               config.responseSchema = TRANSCRIPT_RESPONSE_SCHEMA;
+            }
 
-        if (modelName.includes('gemini-3') || modelName.includes('thinking')) {
-           config.thinkingConfig = { thinkingBudget: 0 };
-        }
+            const responseStream = await ai.models.generateContentStream({
+              model: modelName,
+              contents: [
+                {
+                  role: 'user',
+                  parts: [
+                    contentPart,
+                    // Reinforce the instruction in the user message too
+                    { text: userPrompt }
+                  ]
+                }
+              ],
+              config: config
+            });
+
+            const parser = isStructured ? createSegmentStreamParser() : null;
+            let pendingLine = ''; // Text mode: incomplete trailing line
+            const emitLine = (line: string) => {
+              if (!merger.accept(line)) return;
+              emitted = true;
+              onProgress(line + '\n');
+            };
+
+            let finishReason: string | undefined;
+
+            for await (const chunk of responseStream) {
+              if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata; // Final chunk carries the totals
+              if (chunk.candidates?.[0]?.finishReason) finishReason = chunk.candidates[0].finishReason;
+              if (signal.aborted) {
+                throw { type: 'general', message: STOPPED_MESSAGE };
+              }
+              if (chunk.promptFeedback?.blockReason) {
+                throw { type: 'safety', message: ERROR_MESSAGES.SAFETY } as TranscriptionError;
+              }
+              const text = chunk.text;
+              if (!text) continue;
+
+              if (parser) {
+                // Only complete, schema-valid segments reach the view
+                for (const segment of parser.push(text)) {
+                  const line = formatSegmentLine(segment);
+                  if (merger.accept(line)) {
+                    hooks.onSegment?.(segment);
+                    emitted = true;
+                    onProgress(line + '\n');
+                  }
+                }
+              } else {
+                pendingLine += text;
+                const lastBreak = pendingLine.lastIndexOf('\n');
+                if (lastBreak === -1) continue;
+                pendingLine.substring(0, lastBreak).split('\n').forEach(emitLine);
+                pendingLine = pendingLine.substring(lastBreak + 1);
+              }
+            }
 
-        const responseStream = await ai.models.generateContentStream({
-          model: modelName,
-          contents: [
-            {
-              role: 'user',
-              parts: [
-                contentPart,
-                // Reinforce the instruction in the user message too
-                { text: "Transcribe audio. STRICT FORMAT: `[Start-End] Speaker: Content`. Identify distinct speakers (Speaker 1, Speaker 2) if names are unknown." }
-              ]
+            // A line cut off by the token limit is incomplete; the continuation repeats it
+            if (pendingLine.trim() && finishReason !== 'MAX_TOKENS') emitLine(pendingLine);
+
+            if (parser) {
+              const stats = parser.getStats();
+              if (stats.invalid > 0) {
+                console.warn(`Structured output: skipped ${stats.invalid} invalid segment(s).`);
+              }
+              // Fallback: model ignored the JSON format, keep its free text rather than losing it
+              if (stats.valid === 0 && continueFrom === null && parser.getRawText().trim()) {
+                console.warn("Structured output could not be parsed, falling back to raw text.");
+                emitted = true;
+                onProgress(parser.getRawText());
+                finishReason = undefined; // Cannot continue from unparsed text
+              }
             }
-          ],
-          config: config
-        });
 
-        for await (const chunk of responseStream) {
-          if (signal.aborted) {
-            throw { type: 'general', message: "Transcription stopped by user." };
-          }
-          const text = chunk.text;
-          if (text) {
-            onProgress(text);
+            if (usageMetadata) hooks.onUsage?.({ ...toTokenUsage(modelName, usageMetadata), outcome: 'success' });
+            hooks.onAttempt?.({ time: Date.now(), model: modelName, attempt, outcome: 'success' });
+            // Later passes start with the model that worked
+            modelsToTry = [modelName, ...modelsToTry.filter(m => m !== modelName)];
+            return finishReason || 'STOP';
+
+          } catch (e: any) {
+            if (usageMetadata) {
+              hooks.onUsage?.({ ...toTokenUsage(modelName, usageMetadata), outcome: signal.aborted ? 'stopped' : 'error' });
+            }
+            if (signal.aborted) return null;
+
+            const failure = classifyApiError(e);
+            lastFailure = failure;
+
+            const canRetry = failure.retryable && !emitted
+              && attempt < MAX_ATTEMPTS_PER_MODEL
+              && !exceedsRetryWindow(failure.retryAfterMs);
+            const waitMs = canRetry ? getRetryDelayMs(attempt - 1, failure.retryAfterMs) : undefined;
+
+            console.warn(`Model ${modelName} attempt ${attempt} failed (${failure.type}${failure.status ? ` ${failure.status}` : ''})`, e);
+            hooks.onAttempt?.({
+              time: Date.now(),
+              model: modelName,
+              attempt,
+              outcome: 'error',
+              errorType: failure.type,
+              status: failure.status ?? failure.reason,
+              message: failure.message,
+              waitMs,
+            });
+
+            if (emitted) throw toTranscriptionError(failure);
+            if (canRetry) {
+              await waitWithAbort(waitMs!, signal);
+              continue;
+            }
+            if (failure.switchModel) break; // Try the next model
+            throw toTranscriptionError(failure);
           }
         }
+      }
 
-        return; // Success
+      throw toTranscriptionError(lastFailure || classifyApiError(new Error(ERROR_MESSAGES.GENERAL)));
+    };
 
-      } catch (e: any) {
-        console.warn(`Model ${modelName} failed:`, e);
-        lastError = e;
-        
-        if (signal.aborted) throw e;
-        if (e.response?.promptFeedback?.blockReason) throw e;
-        
-        const errMsg = e.message || JSON.stringify(e);
-        if (errMsg.includes('404') || errMsg.includes('400')) {
-             continue; 
-        }
-        if (errMsg.includes('403')) throw e; 
+    // 4. Continue from the last timestamp while the output was cut short
+    let continueFrom: number | null = null;
+    for (let pass = 0; pass <= MAX_CONTINUATIONS; pass++) {
+      const finishReason = await runPass(continueFrom);
+      if (finishReason === null) return;
+
+      const lastEnd = merger.getLastEnd();
+      if (!shouldContinueTranscript(finishReason, lastEnd, mediaDuration)) return;
+      // No progress since the previous pass: more requests will not help
+      if (continueFrom !== null && lastEnd <= continueFrom) return;
+      if (pass === MAX_CONTINUATIONS) {
+        console.warn(`Transcript still incomplete at ${lastEnd}s after ${MAX_CONTINUATIONS} continuations.`);
+        return;
       }
-    }
 
-    if (lastError) throw lastError;
+      console.warn(`Transcript stopped at ${lastEnd}s (${finishReason}), continuing (${pass + 1}/${MAX_CONTINUATIONS}).`);
+      merger.beginContinuation();
+      continueFrom = lastEnd;
+    }
 
   } catch (error: any) {
     if (signal.aborted) return;
     if (error.type && error.message) throw error;
-
-    const rawMsg = error.message || JSON.stringify(error);
-    const cleanMsg = cleanErrorMessage(rawMsg) || ERROR_MESSAGES.GENERAL;
-
-    const errObj: TranscriptionError = {
-      message: cleanMsg,
-      type: 'general'
-    };
-
-    if (rawMsg.includes('403')) errObj.type = 'auth';
-    if (rawMsg.includes('429')) errObj.type = 'quota';
-    if (rawMsg.includes('fetch') || rawMsg.includes('network')) errObj.type = 'network';
-    if (error.response?.promptFeedback?.blockReason) errObj.type = 'safety';
-
-    if (rawMsg.includes('404')) {
-      errObj.message = `Selected Model not found or API route unavailable (404). Please try a different model in settings.`;
-    }
-
-    throw errObj;
+    throw toTranscriptionError(classifyApiError(error));
   }
 };
 
 // New Function for Summarization
-export const generateSummary = async (text: string): Promise<string> => {
+export const generateSummary = async (text: string, onUsage?: (usage: TokenUsage) => void): Promise<string> => {
   const apiKey = process.env.API_KEY;
   if (!apiKey) throw new Error("API Key not found.");
 
@@ -353,10 +661,35 @@ ${text.slice(0, 100000)} ...
             ],
             config: { temperature: 0.3 }
         });
+        if (response.usageMetadata) onUsage?.(toTokenUsage(model, response.usageMetadata));
         return response.text || "無法生成摘要。";
       } catch (error: any) {
          console.warn(`Summary failed with ${model}`, error);
       }
   }
   throw new Error("無法生成摘要，所有模型嘗試皆失敗。");
+};
+
+// Lists Gemini models that support generateContent, falling back to the curated list
+export const listGeminiModels = async (): Promise<ProviderModel[]> => {
+  const curated: ProviderModel[] = AI_MODELS.map(m => ({ id: m.id, name: m.name, description: m.description }));
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) return curated;
+
+  try {
+    const ai = new GoogleGenAI({ apiKey: apiKey });
+    const pager = await ai.models.list();
+    const models: ProviderModel[] = [...curated];
+
+    for await (const model of pager) {
+      const id = (model.name || '').replace(/^models\//, '');
+      if (!id || !id.startsWith('gemini') || models.some(m => m.id === id)) continue;
+      if (model.supportedActions && !model.supportedActions.includes('generateContent')) continue;
+      models.push({ id, name: model.displayName || id, description: model.description });
+    }
+    return models;
+  } catch (e) {
+    console.warn("List models failed, using built-in list", e);
+    return curated;
+  }
 };
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { Glossary, GlossaryTerm } from "../types";
+import { parseCsvLine, splitCsvLines } from "../utils/csv";
+import { LINE_TIME_REGEX } from "../utils/time";
+
+// Named vocabulary lists (case names, slang, company names, code-mixed jargon),
+// injected into transcription prompts and used to fix known misspellings afterwards.
+
+const GLOSSARY_STORAGE_KEY = 'cai_glossaries';
+const SELECTION_STORAGE_KEY = 'cai_glossary_selection';
+const MAX_PROMPT_TERMS = 300; // Keep the system instruction a reasonable size
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadGlossaries = (): Glossary[] => {
+  try {
+    const raw = localStorage.getItem(GLOSSARY_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveGlossaries = (glossaries: Glossary[]) => {
+  try {
+    localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(glossaries));
+  } catch (e) {
+    console.warn("Failed to save glossaries", e);
+  }
+};
+
+export const loadGlossarySelection = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SELECTION_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveGlossarySelection = (ids: string[]) => {
+  localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(ids));
+};
+
+export const createGlossary = (name: string, terms: GlossaryTerm[] = []): Glossary => ({
+  id: newId(),
+  name,
+  terms,
+  updatedAt: Date.now(),
+});
+
+export const createTerm = (term: string, aliases: string[] = [], note?: string): GlossaryTerm => ({
+  id: newId(),
+  term: term.trim(),
+  aliases: aliases.map(a => a.trim()).filter(a => a && a !== term.trim()),
+  note: note?.trim() || undefined,
+});
+
+// "a|b", "a;b" and "a、b" are all accepted as alias separators
+export const splitAliases = (value: string): string[] =>
+  value.split(/[|;；、]/).map(a => a.trim()).filter(Boolean);
+
+/**
+ * CSV columns: term, aliases, note. A header row (term / 詞彙 / 正確寫法) is skipped.
+ * Aliases inside one cell are separated by |, ; or 、.
+ */
+export const parseGlossaryCsv = (text: string): GlossaryTerm[] => {
+  const terms: GlossaryTerm[] = [];
+  splitCsvLines(text).forEach((line, i) => {
+    if (!line.trim()) return;
+    const [term = '', aliases = '', note = ''] = parseCsvLine(line).map(c => c.trim());
+    if (!term) return;
+    if (i === 0 && /^(term|preferred|詞彙|正確寫法)/i.test(term)) return;
+    terms.push(createTerm(term, splitAliases(aliases), note));
+  });
+  return terms;
+};
+
+// Terms of the selected glossaries; later lists win when the same term appears twice
+export const getSelectedTerms = (ids: string[] | undefined): GlossaryTerm[] => {
+  if (!ids || ids.length === 0) return [];
+  const byTerm = new Map<string, GlossaryTerm>();
+  loadGlossaries()
+    .filter(g => ids.includes(g.id))
+    .forEach(g => g.terms.forEach(t => { if (t.term) byTerm.set(t.term, t); }));
+  return Array.from(byTerm.values());
+};
+
+export const buildGlossaryInstruction = (terms: GlossaryTerm[]): string => {
+  if (terms.length === 0) return '';
+  const lines = terms.slice(0, MAX_PROMPT_TERMS).map(t => {
+    let line = `- "${t.term}"`;
+    if (t.aliases.length > 0) line += ` (may sound like / be misheard as: ${t.aliases.map(a => `"${a}"`).join(', ')})`;
+    if (t.note) line += ` — ${t.note}`;
+    return line;
+  });
+  return `\n\n**VOCABULARY (MANDATORY SPELLINGS):**
+The recording may contain the following names and terms. Whenever one of them is spoken, write it EXACTLY as given:
+${lines.join('\n')}`;
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds a line corrector that replaces every alias with its preferred spelling.
+ * Latin aliases only match whole words (case-insensitive); CJK aliases match anywhere.
+ * Timestamps are left untouched. Returns null when there is nothing to replace.
+ */
+export const createGlossaryCorrector = (terms: GlossaryTerm[]): ((line: string) => string) | null => {
+  const replacements = new Map<string, string>();
+  terms.forEach(t => t.aliases.forEach(a => {
+    if (a && a !== t.term) replacements.set(a.toLowerCase(), t.term);
+  }));
+  if (replacements.size === 0) return null;
+  // Correct spellings match themselves, so an alias inside one ("ABC" in "ABC Holdings") is left alone
+  terms.forEach(t => { if (t.aliases.length > 0) replacements.set(t.term.toLowerCase(), t.term); });
+
+  // Longest alias first so "ABC Holdings" wins over "ABC"
+  const pattern = Array.from(replacements.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(a => /^[\w\s.&'-]+$/.test(a) ? `(?<![\\w])${escapeRegExp(a)}(?![\\w])` : escapeRegExp(a))
+    .join('|');
+  const regex = new RegExp(pattern, 'gi');
+
+  return (line: string) => {
+    const prefix = line.match(LINE_TIME_REGEX)?.[0] || '';
+    const body = line.slice(prefix.length);
+    return prefix + body.replace(regex, match => replacements.get(match.toLowerCase()) ?? match);
+  };
+};
@@ -0,0 +1,140 @@
+import { TranscriptionJob, MediaFileRef, TranscriptionSettings } from "../types";
+import { planChunks } from "./mediaChunker";
+import { formatChunkFailureLine } from "./transcriptionPipeline";
+
+const JOB_STORAGE_KEY = 'cai_active_job';
+const SAVE_THROTTLE_MS = 1500;
+
+export const createFileRef = (file: File): MediaFileRef => ({
+  name: file.name,
+  size: file.size,
+  type: file.type,
+  lastModified: file.lastModified,
+});
+
+export const isSameFile = (ref: MediaFileRef, file: File): boolean =>
+  ref.name === file.name && ref.size === file.size && ref.lastModified === file.lastModified;
+
+export const createJob = (
+  file: File,
+  settings: TranscriptionSettings,
+  duration: number,
+  chunkSeconds: number | null,
+  baseText: string
+): TranscriptionJob => {
+  const now = Date.now();
+  const plans = chunkSeconds
+    ? planChunks(duration, chunkSeconds)
+    : [{ index: 0, start: 0, end: duration }];
+
+  return {
+    id: `job_${now.toString(36)}`,
+    source: createFileRef(file),
+    settings,
+    duration,
+    chunked: !!chunkSeconds,
+    chunks: plans.map(p => ({ ...p, status: 'pending' })),
+    baseText,
+    status: 'idle',
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Joins the chunk outputs in order; failed chunks are marked in place
+export const stitchJobText = (job: TranscriptionJob): string => {
+  return job.chunks
+    .map(c => {
+      const text = (c.text || '').replace(/\n+$/, '');
+      if (c.status !== 'error') return text;
+      return text ? `${text}\n${formatChunkFailureLine(c)}` : formatChunkFailureLine(c);
+    })
+    .filter(Boolean)
+    .join('\n');
+};
+
+export const getJobText = (job: TranscriptionJob): string => job.baseText + stitchJobText(job);
+
+// Last absolute timestamp (seconds) that is fully transcribed, in chunk order
+export const getResumePoint = (job: TranscriptionJob): number => {
+  let point = 0;
+  for (const chunk of job.chunks) {
+    if (chunk.status === 'completed') {
+      point = chunk.end;
+      continue;
+    }
+    return Math.max(point, chunk.completedUntil ?? chunk.start);
+  }
+  return point;
+};
+
+export const isJobResumable = (job: TranscriptionJob): boolean =>
+  job.chunks.some(c => c.status !== 'completed');
+
+// --- Persistence (localStorage) ---
+
+export const loadJob = (): TranscriptionJob | null => {
+  try {
+    const raw = localStorage.getItem(JOB_STORAGE_KEY);
+    if (!raw) return null;
+    const job = JSON.parse(raw) as TranscriptionJob;
+    if (!job || !Array.isArray(job.chunks) || !job.source) return null;
+
+    // A job that was running when the page closed is effectively stopped
+    if (job.status === 'idle' || job.status === 'decoding' || job.status === 'uploading' || job.status === 'transcribing') {
+      job.status = 'stopped';
+      job.chunks = job.chunks.map(c => c.status === 'transcribing' ? { ...c, status: 'pending' } : c);
+    }
+    return job;
+  } catch (e) {
+    console.warn("Failed to load saved job", e);
+    return null;
+  }
+};
+
+let pendingSave: ReturnType<typeof setTimeout> | null = null;
+let lastSaveAt = 0;
+let latestJob: TranscriptionJob | null = null;
+
+const writeJob = (job: TranscriptionJob) => {
+  try {
+    localStorage.setItem(JOB_STORAGE_KEY, JSON.stringify(job));
+    lastSaveAt = Date.now();
+  } catch (e) {
+    console.warn("Failed to save job (storage full?)", e);
+  }
+};
+
+// Writes immediately. Use for status transitions.
+export const saveJob = (job: TranscriptionJob) => {
+  if (pendingSave) {
+    clearTimeout(pendingSave);
+    pendingSave = null;
+  }
+  writeJob(job);
+};
+
+// Throttled write for high-frequency updates such as streamed text
+export const persistJob = (job: TranscriptionJob) => {
+  latestJob = job;
+  const elapsed = Date.now() - lastSaveAt;
+  if (elapsed >= SAVE_THROTTLE_MS) {
+    saveJob(job);
+    return;
+  }
+  if (!pendingSave) {
+    pendingSave = setTimeout(() => {
+      pendingSave = null;
+      if (latestJob) writeJob(latestJob);
+    }, SAVE_THROTTLE_MS - elapsed);
+  }
+};
+
+export const clearJob = () => {
+  if (pendingSave) {
+    clearTimeout(pendingSave);
+    pendingSave = null;
+  }
+  latestJob = null;
+  localStorage.removeItem(JOB_STORAGE_KEY);
+};
@@ -0,0 +1,104 @@
+// Browser-side decoding and time-accurate chunking of long recordings.
+// Audio is decoded once, downmixed to mono 16 kHz (plenty for speech) and
+// re-encoded per chunk as 16-bit WAV so every chunk starts at an exact sample offset.
+
+export const PIPELINE_SAMPLE_RATE = 16000;
+
+export interface MediaChunkPlan {
+  index: number;
+  start: number; // seconds from the start of the source file
+  end: number;
+}
+
+export interface DecodedMedia {
+  samples: Float32Array; // mono PCM at PIPELINE_SAMPLE_RATE
+  sampleRate: number;
+  duration: number; // seconds
+}
+
+export const decodeMediaFile = async (file: File): Promise<DecodedMedia> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+  // Decoding through a 16 kHz context resamples for us
+  const audioContext: AudioContext = new AudioCtx({ sampleRate: PIPELINE_SAMPLE_RATE });
+
+  try {
+    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+    const length = audioBuffer.length;
+    const channels = audioBuffer.numberOfChannels;
+
+    let samples: Float32Array;
+    if (channels === 1) {
+      samples = audioBuffer.getChannelData(0);
+    } else {
+      samples = new Float32Array(length);
+      for (let ch = 0; ch < channels; ch++) {
+        const data = audioBuffer.getChannelData(ch);
+        for (let i = 0; i < length; i++) samples[i] += data[i] / channels;
+      }
+    }
+
+    return { samples, sampleRate: audioBuffer.sampleRate, duration: audioBuffer.duration };
+  } finally {
+    audioContext.close().catch(() => {});
+  }
+};
+
+export const planChunks = (duration: number, chunkSeconds: number): MediaChunkPlan[] => {
+  const size = Math.max(30, chunkSeconds);
+  const plans: MediaChunkPlan[] = [];
+  let start = 0;
+  let index = 0;
+
+  while (start < duration) {
+    let end = Math.min(start + size, duration);
+    // Avoid a tiny trailing chunk: fold anything under 20s into the previous one
+    if (duration - end < 20) end = duration;
+    plans.push({ index, start, end });
+    start = end;
+    index++;
+  }
+  return plans;
+};
+
+// Encodes a mono Float32 range as a 16-bit PCM WAV blob
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export const extractChunkFile = (media: DecodedMedia, plan: MediaChunkPlan, sourceName: string): File => {
+  const from = Math.floor(plan.start * media.sampleRate);
+  const to = Math.min(media.samples.length, Math.floor(plan.end * media.sampleRate));
+  const blob = encodeWav(media.samples.subarray(from, to), media.sampleRate);
+
+  const baseName = sourceName.substring(0, sourceName.lastIndexOf('.')) || sourceName;
+  return new File([blob], `${baseName}_Part_${plan.index + 1}.wav`, { type: 'audio/wav' });
+};
@@ -0,0 +1,211 @@
+import { MediaFileRef, SegmentMeta, Speaker, TranscriptBlock, TranscriptDocument, TranscriptSegmentBlock, TranscriptionSettings } from "../types";
+import { createBlockId, getBlockOffsets, parseTranscriptLine } from "./transcriptDocument";
+import { parseTimeToSeconds } from "../utils/time";
+
+/**
+ * Project file: the whole session as versioned JSON, so it can be restored exactly.
+ *
+ * Schema (version 2):
+ *
+ *   {
+ *     "format": "cantonese-ai-transcriber/project",
+ *     "version": 2,
+ *     "exportedAt": "2024-05-01T10:00:00.000Z",
+ *     "source": { "name", "size", "type", "lastModified", "duration" } | null,
+ *     "settings": TranscriptionSettings without `speakers` (local server API key removed) | null,
+ *     "speakers": [{ "id": "Speaker 1", "name": "陳大文" }],
+ *     "blocks": [
+ *       { "type": "segment", "id", "start": "MM:SS", "end": "MM:SS" | null,
+ *         "absoluteStart": 62, "absoluteEnd": 65 | null, "speaker", "text",
+ *         "meta": { "review", "flag", "language", "threads" } | null, "raw"?: "original line" },
+ *       { "type": "separator", "id", "label", "startTime": "HH:MM:SS" | null, "source": "name" | null, "raw" },
+ *       { "type": "raw", "id", "text" }
+ *     ],
+ *     "summary": "..." | null
+ *   }
+ *
+ * `start` / `end` are relative to the file part (the preceding separator's Start time);
+ * `absoluteStart` / `absoluteEnd` are seconds from the start of the whole recording and
+ * are informational only. Version 1 is the segment list written by the old JSON
+ * export ({ exportedAt, progress, segments: [{ id, start, end, speaker, text, review, flag }] }),
+ * which had absolute times and no separators.
+ */
+
+export const PROJECT_FORMAT = 'cantonese-ai-transcriber/project';
+export const PROJECT_VERSION = 2;
+
+export interface ProjectSource extends MediaFileRef {
+  duration?: number; // Seconds, when known
+}
+
+export type ProjectSettings = Omit<TranscriptionSettings, 'speakers'>;
+
+export type ProjectBlock =
+  | {
+      type: 'segment';
+      id: string;
+      start: string;
+      end: string | null;
+      absoluteStart: number;
+      absoluteEnd: number | null;
+      speaker: string;
+      text: string;
+      meta: SegmentMeta | null;
+      raw?: string;
+    }
+  | { type: 'separator'; id: string; label: string; startTime: string | null; source: string | null; raw: string }
+  | { type: 'raw'; id: string; text: string };
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  exportedAt: string;
+  source: ProjectSource | null;
+  settings: ProjectSettings | null; // null in files migrated from version 1
+  speakers: Speaker[];
+  blocks: ProjectBlock[];
+  summary: string | null;
+}
+
+// What an import restores
+export interface ProjectData {
+  document: TranscriptDocument;
+  settings?: TranscriptionSettings;
+  summary: string;
+  source: ProjectSource | null;
+}
+
+export interface ProjectInput {
+  document: TranscriptDocument;
+  settings: TranscriptionSettings;
+  summary?: string;
+  source?: ProjectSource | null;
+}
+
+export const buildProject = ({ document, settings, summary, source }: ProjectInput): ProjectFile => {
+  const offsets = getBlockOffsets(document.blocks);
+  const { speakers, ...rest } = settings;
+  const projectSettings: ProjectSettings = rest.localServer
+    ? { ...rest, localServer: { ...rest.localServer, apiKey: undefined } }
+    : rest;
+
+  const blocks = document.blocks.map((block, i): ProjectBlock => {
+    if (block.type === 'separator') {
+      return { type: 'separator', id: block.id, label: block.label, startTime: block.startTime ?? null, source: block.source ?? null, raw: block.raw };
+    }
+    if (block.type === 'raw') return { type: 'raw', id: block.id, text: block.text };
+    return {
+      type: 'segment',
+      id: block.id,
+      start: block.start,
+      end: block.end ?? null,
+      absoluteStart: parseTimeToSeconds(block.start) + offsets[i],
+      absoluteEnd: block.end ? parseTimeToSeconds(block.end) + offsets[i] : null,
+      speaker: block.speaker,
+      text: block.text,
+      meta: block.meta ?? null,
+      ...(block.raw !== undefined ? { raw: block.raw } : {}),
+    };
+  });
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: source ?? null,
+    settings: projectSettings,
+    speakers,
+    blocks,
+    summary: summary?.trim() ? summary : null,
+  };
+};
+
+export const serializeProject = (input: ProjectInput): string => JSON.stringify(buildProject(input), null, 2);
+
+// --- Import ---
+
+type Migration = (data: any) => any;
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  1: (data) => ({
+    format: PROJECT_FORMAT,
+    version: 2,
+    exportedAt: data.exportedAt || new Date().toISOString(),
+    source: null,
+    settings: null,
+    speakers: [],
+    summary: null,
+    blocks: (data.segments || []).map((s: any) => ({
+      type: 'segment',
+      id: String(s.id || createBlockId()),
+      start: String(s.start || '00:00'),
+      end: s.end || null,
+      absoluteStart: parseTimeToSeconds(String(s.start || '')),
+      absoluteEnd: s.end ? parseTimeToSeconds(String(s.end)) : null,
+      speaker: String(s.speaker || ''),
+      text: String(s.text || ''),
+      meta: s.review && s.review !== 'unreviewed' ? { review: s.review, ...(s.flag ? { flag: s.flag } : {}) } : null,
+    })),
+  }),
+};
+
+const detectVersion = (data: any): number => {
+  if (data?.format === PROJECT_FORMAT && typeof data.version === 'number') return data.version;
+  if (Array.isArray(data?.segments)) return 1; // Segment export from before the project format
+  return 0;
+};
+
+export const migrateProject = (data: any): ProjectFile => {
+  let version = detectVersion(data);
+  if (version === 0) throw new Error("不是有效的專案檔案。");
+  if (version > PROJECT_VERSION) throw new Error(`專案檔案版本 (${version}) 比此程式新，請先更新程式。`);
+  while (version < PROJECT_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  if (!Array.isArray(data.blocks)) throw new Error("專案檔案缺少逐字稿內容。");
+  return data as ProjectFile;
+};
+
+const toBlock = (block: any): TranscriptBlock => {
+  const id = typeof block.id === 'string' && block.id ? block.id : createBlockId();
+  switch (block.type) {
+    case 'separator':
+      return parseTranscriptLine(String(block.raw ?? `--- ${block.label} ---`), id);
+    case 'segment': {
+      const segment: TranscriptSegmentBlock = {
+        id,
+        type: 'segment',
+        start: String(block.start),
+        end: block.end ? String(block.end) : undefined,
+        speaker: String(block.speaker ?? ''),
+        text: String(block.text ?? ''),
+      };
+      if (block.meta) segment.meta = block.meta;
+      if (typeof block.raw === 'string') segment.raw = block.raw;
+      return segment;
+    }
+    default:
+      return { id, type: 'raw', text: String(block.text ?? '') };
+  }
+};
+
+export const parseProject = (text: string): ProjectData => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("無法讀取 JSON 檔案。");
+  }
+  const project = migrateProject(data);
+
+  const blocks = project.blocks.map(toBlock);
+
+  return {
+    document: { blocks, updatedAt: Date.now() },
+    settings: project.settings ? { ...project.settings, speakers: project.speakers || [] } as TranscriptionSettings : undefined,
+    summary: project.summary || '',
+    source: project.source,
+  };
+};
@@ -0,0 +1,14 @@
+import { TranscriptionProvider } from "../../types";
+import { transcribeMedia, generateSummary, listGeminiModels } from "../geminiService";
+
+// Gemini adapter: thin wrapper over the existing geminiService functions
+export const geminiProvider: TranscriptionProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+
+  transcribe: transcribeMedia,
+
+  generateSummary: (text, _settings, onUsage) => generateSummary(text, onUsage),
+
+  listModels: () => listGeminiModels(),
+};
@@ -0,0 +1,13 @@
+import { TranscriptionProvider, TranscriptionProviderId, TranscriptionSettings } from "../../types";
+import { geminiProvider } from "./geminiProvider";
+import { localProvider } from "./localProvider";
+
+export const PROVIDERS: Record<TranscriptionProviderId, TranscriptionProvider> = {
+  gemini: geminiProvider,
+  local: localProvider,
+};
+
+export const getProvider = (settings: Pick<TranscriptionSettings, 'provider'>): TranscriptionProvider =>
+  PROVIDERS[settings.provider || 'gemini'] || geminiProvider;
+
+export { DEFAULT_LOCAL_SERVER } from "./localProvider";
@@ -0,0 +1,184 @@
+import { TranscriptionProvider, TranscriptionError, TranscriptionSettings, LocalServerConfig, ProviderModel } from "../../types";
+import { ERROR_MESSAGES } from "../../constants";
+import { validateSegment, formatSegmentLine } from "../structuredTranscript";
+import { getSelectedTerms } from "../glossaryStore";
+
+export const DEFAULT_LOCAL_SERVER: LocalServerConfig = {
+  baseUrl: 'http://localhost:8080',
+  flavor: 'whispercpp',
+  model: 'whisper-1',
+};
+
+// Whisper language codes for our LANGUAGES ids. whisper-1 (OpenAI) only knows 'zh' for Chinese.
+const WHISPER_LANGUAGE: Record<string, { openai: string; whispercpp: string }> = {
+  'yue': { openai: 'zh', whispercpp: 'yue' },
+  'zh-TW': { openai: 'zh', whispercpp: 'zh' },
+  'zh-CN': { openai: 'zh', whispercpp: 'zh' },
+  'en': { openai: 'en', whispercpp: 'en' },
+  'ja': { openai: 'ja', whispercpp: 'ja' },
+  'ko': { openai: 'ko', whispercpp: 'ko' },
+  'id': { openai: 'id', whispercpp: 'id' },
+  'fil': { openai: 'tl', whispercpp: 'tl' },
+};
+
+const getConfig = (settings: TranscriptionSettings): LocalServerConfig => {
+  const config = { ...DEFAULT_LOCAL_SERVER, ...settings.localServer };
+  return { ...config, baseUrl: config.baseUrl.trim().replace(/\/+$/, '') };
+};
+
+// OpenAI-style routes live under /v1; accept base URLs given with or without it
+const openAiUrl = (config: LocalServerConfig, path: string) =>
+  config.baseUrl.endsWith('/v1') ? `${config.baseUrl}${path}` : `${config.baseUrl}/v1${path}`;
+
+const authHeaders = (config: LocalServerConfig): Record<string, string> =>
+  config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+const toTranscriptionError = async (res: Response): Promise<TranscriptionError> => {
+  let detail = '';
+  try {
+    const body = await res.text();
+    try {
+      const parsed = JSON.parse(body);
+      detail = parsed.error?.message || parsed.error || parsed.message || body;
+    } catch (e) {
+      detail = body;
+    }
+  } catch (e) {
+    // Ignore unreadable bodies
+  }
+
+  const message = `Local server error ${res.status}${detail ? `: ${String(detail).slice(0, 300)}` : ''}`;
+  if (res.status === 401 || res.status === 403) return { type: 'auth', code: res.status, message };
+  if (res.status === 429) return { type: 'quota', code: res.status, message };
+  if (res.status === 408 || res.status === 504) return { type: 'timeout', code: res.status, message };
+  return { type: 'general', code: res.status, message };
+};
+
+const localFetch = async (url: string, init: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (e: any) {
+    if (e?.name === 'AbortError') throw e;
+    throw {
+      type: 'network',
+      message: `無法連接本地伺服器 (${url})。請確認伺服器已啟動並允許 CORS。`
+    } as TranscriptionError;
+  }
+};
+
+export const localProvider: TranscriptionProvider = {
+  id: 'local',
+  name: '本地伺服器 (Whisper / OpenAI 相容)',
+
+  transcribe: async (file, settings, onProgress, signal, hooks = {}) => {
+    const config = getConfig(settings);
+
+    const form = new FormData();
+    form.append('file', file, file.name);
+    form.append('response_format', 'verbose_json');
+    form.append('temperature', '0');
+
+    // Whisper accepts a single language hint; with mixed languages let it auto-detect
+    if (settings.language.length === 1) {
+      const lang = WHISPER_LANGUAGE[settings.language[0]];
+      if (lang) form.append('language', lang[config.flavor]);
+    }
+    // Whisper's prompt biases spelling, so glossary terms go there too
+    const vocabulary = getSelectedTerms(settings.glossaryIds).map(t => t.term).join(', ');
+    const prompt = [settings.customPrompt?.trim(), vocabulary].filter(Boolean).join('\n');
+    if (prompt) {
+      form.append('prompt', prompt);
+    }
+
+    let url: string;
+    if (config.flavor === 'openai') {
+      url = openAiUrl(config, '/audio/transcriptions');
+      form.append('model', config.model);
+      form.append('timestamp_granularities[]', 'segment');
+    } else {
+      url = `${config.baseUrl}/inference`;
+    }
+
+    try {
+      const res = await localFetch(url, { method: 'POST', headers: authHeaders(config), body: form, signal });
+      if (!res.ok) throw await toTranscriptionError(res);
+
+      const result = await res.json();
+      if (signal.aborted) return;
+
+      const rawSegments: any[] = Array.isArray(result.segments) ? result.segments : [];
+      let emitted = 0;
+
+      for (const raw of rawSegments) {
+        // Whisper has no diarization; speaker labels can be fixed in the editor
+        const segment = validateSegment({ ...raw, speaker: raw.speaker || 'Speaker 1' });
+        if (!segment) continue;
+        hooks.onSegment?.(segment);
+        onProgress(formatSegmentLine(segment) + '\n');
+        emitted++;
+      }
+
+      // Servers without segment output: keep the plain text rather than nothing
+      if (emitted === 0 && typeof result.text === 'string' && result.text.trim()) {
+        onProgress(result.text.trim() + '\n');
+      }
+    } catch (error: any) {
+      if (signal.aborted || error?.name === 'AbortError') return;
+      if (error?.type && error?.message) throw error;
+      throw { type: 'general', message: error?.message || ERROR_MESSAGES.GENERAL } as TranscriptionError;
+    }
+  },
+
+  generateSummary: async (text, settings, onUsage) => {
+    const config = getConfig(settings);
+    if (config.flavor !== 'openai' || !config.summaryModel) {
+      throw new Error("本地伺服器未設定摘要模型 (需要 OpenAI 相容的 /v1/chat/completions)。");
+    }
+
+    const res = await localFetch(openAiUrl(config, '/chat/completions'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(config) },
+      body: JSON.stringify({
+        model: config.summaryModel,
+        temperature: 0.3,
+        messages: [
+          { role: 'system', content: '你是一位專業的案件分析師或書記。請以繁體中文，使用「問答形式」(Q&A) 生成詳盡摘要，保留原文至少 50% 的資訊。' },
+          { role: 'user', content: text.slice(0, 100000) },
+        ],
+      }),
+    });
+    if (!res.ok) {
+      const err = await toTranscriptionError(res);
+      throw new Error(err.message);
+    }
+    const json = await res.json();
+    if (json.usage) {
+      onUsage?.({
+        model: config.summaryModel,
+        inputTokens: json.usage.prompt_tokens || 0,
+        outputTokens: json.usage.completion_tokens || 0,
+      });
+    }
+    return json.choices?.[0]?.message?.content || "無法生成摘要。";
+  },
+
+  listModels: async (settings) => {
+    const config = getConfig(settings);
+    const fallback: ProviderModel[] = [{ id: config.model, name: config.model }];
+    // whisper.cpp serves exactly the model it was started with
+    if (config.flavor !== 'openai') return fallback;
+
+    try {
+      const res = await localFetch(openAiUrl(config, '/models'), { headers: authHeaders(config) });
+      if (!res.ok) return fallback;
+      const json = await res.json();
+      const models: ProviderModel[] = (json.data || [])
+        .filter((m: any) => typeof m?.id === 'string')
+        .map((m: any) => ({ id: m.id, name: m.id }));
+      return models.length > 0 ? models : fallback;
+    } catch (e) {
+      console.warn("List local models failed", e);
+      return fallback;
+    }
+  },
+};
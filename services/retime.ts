@@ -0,0 +1,100 @@
+import { TranscriptDocument, TranscriptSegmentBlock } from "../types";
+import { getBlockOffsets } from "./transcriptDocument";
+import { parseTimeToSeconds, formatSecondsToTime } from "../utils/time";
+
+// Retiming works in absolute (displayed) seconds and stores each segment relative
+// to its file part, so the separator offset is never applied twice.
+
+export interface TranscriptPart {
+  key: string; // Separator block ID, or '' for the leading part
+  label: string;
+  offset: number; // Seconds
+  segmentIds: string[];
+}
+
+export const getTranscriptParts = (doc: TranscriptDocument): TranscriptPart[] => {
+  const parts: TranscriptPart[] = [{ key: '', label: '開頭部分', offset: 0, segmentIds: [] }];
+  doc.blocks.forEach(b => {
+    if (b.type === 'separator' && b.startTime) {
+      parts.push({ key: b.id, label: b.source || b.label, offset: parseTimeToSeconds(b.startTime), segmentIds: [] });
+    } else if (b.type === 'segment') {
+      parts[parts.length - 1].segmentIds.push(b.id);
+    }
+  });
+  return parts.filter(p => p.segmentIds.length > 0);
+};
+
+export interface AbsoluteTimes {
+  start: number;
+  end?: number;
+}
+
+const mapSegmentTimes = (
+  doc: TranscriptDocument,
+  ids: Iterable<string>,
+  map: (abs: AbsoluteTimes, block: TranscriptSegmentBlock) => AbsoluteTimes
+): TranscriptDocument => {
+  const idSet = new Set(ids);
+  const offsets = getBlockOffsets(doc.blocks);
+  let changed = false;
+
+  const blocks = doc.blocks.map((b, i) => {
+    if (b.type !== 'segment' || !idSet.has(b.id)) return b;
+    const offset = offsets[i];
+    const next = map({
+      start: parseTimeToSeconds(b.start) + offset,
+      end: b.end ? parseTimeToSeconds(b.end) + offset : undefined,
+    }, b);
+    const start = formatSecondsToTime(Math.round(next.start - offset));
+    const end = next.end !== undefined ? formatSecondsToTime(Math.round(next.end - offset)) : undefined;
+    if (start === b.start && end === b.end) return b;
+    changed = true;
+    const { raw, ...rest } = b;
+    return { ...rest, start, end };
+  });
+
+  return changed ? { ...doc, blocks, updatedAt: Date.now() } : doc;
+};
+
+// Sets one segment's times from absolute (displayed) values
+export const setSegmentTimes = (doc: TranscriptDocument, id: string, times: AbsoluteTimes): TranscriptDocument =>
+  mapSegmentTimes(doc, [id], () => times);
+
+export const shiftSegments = (doc: TranscriptDocument, ids: Iterable<string>, deltaSeconds: number): TranscriptDocument =>
+  mapSegmentTimes(doc, ids, ({ start, end }) => ({
+    start: start + deltaSeconds,
+    end: end !== undefined ? end + deltaSeconds : undefined,
+  }));
+
+/**
+ * Linearly maps absolute times so that `from[0]` lands on `to[0]` and `from[1]` on
+ * `to[1]`, e.g. to correct drift that grows over a long recording.
+ */
+export const rescaleSegments = (
+  doc: TranscriptDocument,
+  ids: Iterable<string>,
+  from: [number, number],
+  to: [number, number]
+): TranscriptDocument => {
+  if (from[1] === from[0]) return doc;
+  const scale = (to[1] - to[0]) / (from[1] - from[0]);
+  const map = (t: number) => to[0] + (t - from[0]) * scale;
+  return mapSegmentTimes(doc, ids, ({ start, end }) => ({
+    start: map(start),
+    end: end !== undefined ? map(end) : undefined,
+  }));
+};
+
+// Absolute start of the first and end of the last of the given segments
+export const getTimeSpan = (doc: TranscriptDocument, ids: Iterable<string>): [number, number] | null => {
+  const idSet = new Set(ids);
+  const offsets = getBlockOffsets(doc.blocks);
+  let span: [number, number] | null = null;
+  doc.blocks.forEach((b, i) => {
+    if (b.type !== 'segment' || !idSet.has(b.id)) return;
+    const start = parseTimeToSeconds(b.start) + offsets[i];
+    const end = (b.end ? parseTimeToSeconds(b.end) : parseTimeToSeconds(b.start)) + offsets[i];
+    span = span ? [Math.min(span[0], start), Math.max(span[1], end)] : [start, end];
+  });
+  return span;
+};
@@ -0,0 +1,87 @@
+import { ReviewState, SegmentMeta, TranscriptBlock, TranscriptDocument } from "../types";
+
+// Per-segment review state for proofreading, stored in segment meta.
+
+export const REVIEW_FLAGS: { id: string; label: string }[] = [
+  { id: 'inaudible', label: '聽不清楚' },
+  { id: 'uncertain_name', label: '名稱不確定' },
+  { id: 'overlap', label: '多人同時說話' },
+  { id: 'translation', label: '用詞 / 翻譯待確認' },
+  { id: 'timing', label: '時間不準' },
+];
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  unreviewed: '未審核',
+  reviewed: '已審核',
+  attention: '需注意',
+};
+
+export const getReviewState = (block: TranscriptBlock): ReviewState =>
+  block.type === 'segment' ? block.meta?.review || 'unreviewed' : 'unreviewed';
+
+export const getFlagLabel = (flag?: string): string =>
+  REVIEW_FLAGS.find(f => f.id === flag)?.label || flag || '';
+
+// Next state when clicking the review toggle
+export const cycleReviewState = (state: ReviewState): ReviewState =>
+  state === 'unreviewed' ? 'reviewed' : state === 'reviewed' ? 'attention' : 'unreviewed';
+
+/**
+ * Sets the review state of the given segments. The flag is kept only for
+ * 'attention'; pass `flag` to change it, otherwise the current one stays.
+ */
+export const setReviewState = (
+  doc: TranscriptDocument,
+  ids: Iterable<string>,
+  state: ReviewState,
+  flag?: string
+): TranscriptDocument => {
+  const idSet = new Set(ids);
+  let changed = false;
+
+  const blocks = doc.blocks.map(b => {
+    if (b.type !== 'segment' || !idSet.has(b.id)) return b;
+    const { review, flag: oldFlag, ...rest } = b.meta || {};
+    const meta: SegmentMeta = { ...rest };
+    if (state !== 'unreviewed') meta.review = state;
+    const nextFlag = state === 'attention' ? (flag !== undefined ? flag : oldFlag) : undefined;
+    if (nextFlag) meta.flag = nextFlag;
+    if (meta.review === review && meta.flag === oldFlag) return b;
+    changed = true;
+    return { ...b, meta: Object.keys(meta).length > 0 ? meta : undefined };
+  });
+
+  return changed ? { ...doc, blocks, updatedAt: Date.now() } : doc;
+};
+
+export interface ReviewProgress {
+  total: number;
+  reviewed: number;
+  attention: number;
+  unreviewed: number;
+}
+
+export const getReviewProgress = (doc: TranscriptDocument): ReviewProgress => {
+  const progress: ReviewProgress = { total: 0, reviewed: 0, attention: 0, unreviewed: 0 };
+  doc.blocks.forEach(b => {
+    if (b.type !== 'segment') return;
+    progress.total++;
+    progress[getReviewState(b)]++;
+  });
+  return progress;
+};
+
+// Accepts the exported labels as well as the state ids (for CSV round trips)
+export const parseReviewState = (value: string): ReviewState => {
+  const v = value.trim().toLowerCase();
+  if (v === 'reviewed' || v === REVIEW_STATE_LABELS.reviewed) return 'reviewed';
+  if (v === 'attention' || v === REVIEW_STATE_LABELS.attention) return 'attention';
+  return 'unreviewed';
+};
+
+// Maps an exported flag label back to its id; anything else is kept as free text
+export const parseFlag = (value: string): string | undefined => {
+  const v = value.trim();
+  if (!v) return undefined;
+  return REVIEW_FLAGS.find(f => f.label === v || f.id === v)?.id || v;
+};
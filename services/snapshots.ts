@@ -0,0 +1,95 @@
+import { SnapshotKind, TranscriptDocument, TranscriptSnapshot } from "../types";
+
+// Named versions of the transcript, kept in localStorage so the raw AI output can be
+// compared with (or restored over) the corrected transcript later.
+
+const SNAPSHOT_STORAGE_KEY = 'cai_snapshots';
+const MAX_SNAPSHOTS = 20;
+// Serialized size cap, in characters. Snapshots share the origin's ~5 MB localStorage quota
+// with the live transcript and the active job, which must always have room to save.
+const MAX_SNAPSHOT_CHARS = 2_000_000;
+
+// Automatic snapshots are dropped in this order when space runs out; user snapshots never are
+const EVICTION_ORDER: SnapshotKind[] = ['backup', 'ai-output'];
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadSnapshots = (): TranscriptSnapshot[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SNAPSHOT_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(s => s && s.document && Array.isArray(s.document.blocks)) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+// Index of the snapshot to drop next (oldest pre-restore backup, then oldest AI output), or -1
+const evictionIndex = (list: TranscriptSnapshot[]): number => {
+  for (const kind of EVICTION_ORDER) {
+    const index = list.map(s => s.kind === kind).lastIndexOf(true);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+/**
+ * Saves the list, newest first. Over the count or size cap, or when storage is full,
+ * automatic snapshots are dropped (backups before AI output); returns false if the
+ * list still does not fit.
+ */
+export const saveSnapshots = (snapshots: TranscriptSnapshot[]): boolean => {
+  let list = snapshots;
+  while (list.length > MAX_SNAPSHOTS) {
+    const index = evictionIndex(list);
+    list = list.filter((_, i) => i !== (index === -1 ? list.length - 1 : index));
+  }
+
+  while (true) {
+    const json = JSON.stringify(list);
+    let error: unknown = null;
+    if (json.length <= MAX_SNAPSHOT_CHARS) {
+      try {
+        localStorage.setItem(SNAPSHOT_STORAGE_KEY, json);
+        return true;
+      } catch (e) {
+        error = e;
+      }
+    }
+    const index = evictionIndex(list);
+    if (index === -1) {
+      console.warn("Failed to save snapshots (storage full?)", error);
+      return false;
+    }
+    list = list.filter((_, i) => i !== index);
+  }
+};
+
+export const createSnapshot = (name: string, document: TranscriptDocument, kind?: SnapshotKind): TranscriptSnapshot => ({
+  id: newId(),
+  name: name.trim() || new Date().toLocaleString('zh-HK'),
+  createdAt: Date.now(),
+  kind,
+  document,
+});
+
+// Adds a snapshot to the stored list; returns the updated list (unchanged if it could not be saved)
+export const addSnapshot = (snapshot: TranscriptSnapshot): TranscriptSnapshot[] => {
+  const current = loadSnapshots();
+  const next = [snapshot, ...current];
+  return saveSnapshots(next) ? loadSnapshots() : current;
+};
+
+export const renameSnapshot = (id: string, name: string): TranscriptSnapshot[] => {
+  const next = loadSnapshots().map(s => s.id === id && name.trim() ? { ...s, name: name.trim() } : s);
+  saveSnapshots(next);
+  return next;
+};
+
+export const deleteSnapshot = (id: string): TranscriptSnapshot[] => {
+  const next = loadSnapshots().filter(s => s.id !== id);
+  saveSnapshots(next);
+  return next;
+};
+
+export const countSegments = (doc: TranscriptDocument): number =>
+  doc.blocks.filter(b => b.type === 'segment').length;
@@ -0,0 +1,91 @@
+import { Speaker, TranscriptDocument, TranscriptBlock } from "../types";
+
+// Speakers as they actually appear in the transcript, plus the global rename /
+// merge / reassign operations and the per-speaker colour and initials.
+
+export interface SpeakerStat {
+  label: string; // As stored in the transcript
+  count: number; // Number of segments
+}
+
+export interface SpeakerColor {
+  badge: string; // Tailwind classes for the initials badge
+  text: string; // Tailwind classes for the name
+  hex: string; // For exports
+}
+
+const PALETTE: SpeakerColor[] = [
+  { badge: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300', text: 'text-blue-700 dark:text-blue-300', hex: '#1d4ed8' },
+  { badge: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300', text: 'text-emerald-700 dark:text-emerald-300', hex: '#047857' },
+  { badge: 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300', text: 'text-amber-700 dark:text-amber-300', hex: '#b45309' },
+  { badge: 'bg-rose-100 text-rose-700 dark:bg-rose-900/50 dark:text-rose-300', text: 'text-rose-700 dark:text-rose-300', hex: '#be123c' },
+  { badge: 'bg-violet-100 text-violet-700 dark:bg-violet-900/50 dark:text-violet-300', text: 'text-violet-700 dark:text-violet-300', hex: '#6d28d9' },
+  { badge: 'bg-cyan-100 text-cyan-700 dark:bg-cyan-900/50 dark:text-cyan-300', text: 'text-cyan-700 dark:text-cyan-300', hex: '#0e7490' },
+  { badge: 'bg-orange-100 text-orange-700 dark:bg-orange-900/50 dark:text-orange-300', text: 'text-orange-700 dark:text-orange-300', hex: '#c2410c' },
+  { badge: 'bg-fuchsia-100 text-fuchsia-700 dark:bg-fuchsia-900/50 dark:text-fuchsia-300', text: 'text-fuchsia-700 dark:text-fuchsia-300', hex: '#a21caf' },
+];
+
+const NO_SPEAKER_COLOR: SpeakerColor = {
+  badge: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400',
+  text: 'text-slate-700 dark:text-slate-300',
+  hex: '#334155',
+};
+
+// Hashed from the name, so a speaker keeps its colour across sessions and exports
+export const getSpeakerColor = (name: string): SpeakerColor => {
+  if (!name) return NO_SPEAKER_COLOR;
+  let hash = 0;
+  for (const ch of name.toLowerCase()) hash = (hash * 31 + ch.codePointAt(0)!) >>> 0;
+  return PALETTE[hash % PALETTE.length];
+};
+
+// "Speaker 3" -> "S3", "陳大文" -> "陳", "Mary Jane Chan" -> "MJ"
+export const getSpeakerInitials = (name: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) return '?';
+  const numbered = trimmed.match(/^(\S)\S*\s+(\d+)$/);
+  if (numbered) return `${numbered[1].toUpperCase()}${numbered[2]}`;
+  const words = trimmed.split(/\s+/);
+  if (words.length > 1 && /^[a-z]/i.test(words[0])) {
+    return (words[0][0] + words[1][0]).toUpperCase();
+  }
+  return Array.from(trimmed)[0].toUpperCase();
+};
+
+// Display name after the configured ID -> name mapping (case-insensitive)
+export const mapSpeakerName = (label: string, speakers?: Speaker[]): string =>
+  speakers?.find(s => s.id.toLowerCase() === label.toLowerCase())?.name || label;
+
+// Speakers in order of first appearance
+export const getSpeakerStats = (doc: TranscriptDocument): SpeakerStat[] => {
+  const counts = new Map<string, number>();
+  doc.blocks.forEach(b => {
+    if (b.type === 'segment') counts.set(b.speaker, (counts.get(b.speaker) || 0) + 1);
+  });
+  return Array.from(counts, ([label, count]) => ({ label, count }));
+};
+
+const mapSegments = (
+  doc: TranscriptDocument,
+  patch: (b: TranscriptBlock) => string | null // New speaker label, or null to keep the block
+): TranscriptDocument => {
+  let changed = false;
+  const blocks = doc.blocks.map(b => {
+    if (b.type !== 'segment') return b;
+    const speaker = patch(b);
+    if (speaker === null || speaker === b.speaker) return b;
+    changed = true;
+    const { raw, ...rest } = b;
+    return { ...rest, speaker };
+  });
+  return changed ? { ...doc, blocks, updatedAt: Date.now() } : doc;
+};
+
+// Renames a label everywhere; renaming onto an existing label merges the two
+export const renameSpeaker = (doc: TranscriptDocument, from: string, to: string): TranscriptDocument =>
+  mapSegments(doc, b => b.type === 'segment' && b.speaker === from ? to.trim() : null);
+
+export const reassignSpeaker = (doc: TranscriptDocument, ids: Iterable<string>, to: string): TranscriptDocument => {
+  const idSet = new Set(ids);
+  return mapSegments(doc, b => idSet.has(b.id) ? to.trim() : null);
+};
@@ -0,0 +1,144 @@
+import { Type } from "@google/genai";
+import { TranscriptionSegment } from "../types";
+import { formatSecondsToTime, parseTimeToSeconds, TIME_PATTERN } from "../utils/time";
+
+// Response schema for structured mode: a flat array of segments
+export const TRANSCRIPT_RESPONSE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      start: { type: Type.STRING, description: 'Segment start time, "MM:SS" or "HH:MM:SS".' },
+      end: { type: Type.STRING, description: 'Segment end time, "MM:SS" or "HH:MM:SS".' },
+      speaker: { type: Type.STRING, description: 'Speaker name or generic label such as "Speaker 1".' },
+      text: { type: Type.STRING, description: 'Verbatim transcription of the segment.' },
+      language: { type: Type.STRING, description: 'Language id of the segment, e.g. "yue", "en".' },
+    },
+    required: ['start', 'end', 'speaker', 'text'],
+    propertyOrdering: ['start', 'end', 'speaker', 'text', 'language'],
+  },
+};
+
+export const STRUCTURED_OUTPUT_INSTRUCTION = `
+**OUTPUT FORMAT: JSON**
+Return a JSON array. Each element is one utterance:
+\`{"start": "MM:SS", "end": "MM:SS", "speaker": "Speaker 1", "text": "...", "language": "yue"}\`
+- "start" and "end" are relative to the beginning of the file. Use "HH:MM:SS" after one hour.
+- "speaker" must never be empty. Use generic labels ("Speaker 1", "Speaker 2") if names are unknown.
+- "text" contains only the spoken words, no timestamps and no speaker name.
+- For long silences output a segment with speaker "System" and text "[Silence]".
+`;
+
+// Normalises a time value from the model ("1:05", "01:05.4", 65) into "MM:SS" / "HH:MM:SS"
+const normalizeTime = (value: unknown): string | null => {
+  if (typeof value === 'number' && isFinite(value) && value >= 0) {
+    return formatSecondsToTime(value);
+  }
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().replace(/^\[|\]$/g, '');
+  if (!TIME_PATTERN.test(trimmed)) return null;
+  return formatSecondsToTime(parseTimeToSeconds(trimmed));
+};
+
+// Validates a raw object against the segment schema. Returns null if it cannot be salvaged.
+export const validateSegment = (raw: unknown): TranscriptionSegment | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const obj = raw as Record<string, unknown>;
+
+  const start = normalizeTime(obj.start);
+  if (!start) return null;
+
+  const text = typeof obj.text === 'string' ? obj.text.replace(/\s*\n\s*/g, ' ').trim() : '';
+  if (!text) return null;
+
+  let end = normalizeTime(obj.end) || start;
+  if (parseTimeToSeconds(end) < parseTimeToSeconds(start)) end = start;
+
+  // Strip markdown bolding and stray colons that the model sometimes adds to names
+  const speaker = typeof obj.speaker === 'string'
+    ? obj.speaker.replace(/\*\*/g, '').replace(/:+$/, '').trim()
+    : '';
+
+  const segment: TranscriptionSegment = {
+    start,
+    end,
+    speaker: speaker || 'Speaker',
+    text,
+  };
+  if (typeof obj.language === 'string' && obj.language.trim()) {
+    segment.language = obj.language.trim();
+  }
+  return segment;
+};
+
+// Renders a segment in the legacy line format understood by TranscriptionView
+export const formatSegmentLine = (segment: TranscriptionSegment): string => {
+  return `[${segment.start} - ${segment.end}] ${segment.speaker}: ${segment.text}`;
+};
+
+/**
+ * Incremental parser for a streamed JSON array of segment objects.
+ * Feed raw text chunks in arrival order; every call returns the objects
+ * that were completed by that chunk. Top-level objects are detected by
+ * brace depth so partial objects are held back until they close.
+ */
+export const createSegmentStreamParser = () => {
+  let buffer = '';
+  let scanIndex = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+  let invalidCount = 0;
+  let validCount = 0;
+
+  const push = (chunk: string): TranscriptionSegment[] => {
+    buffer += chunk;
+    const completed: TranscriptionSegment[] = [];
+
+    for (; scanIndex < buffer.length; scanIndex++) {
+      const c = buffer[scanIndex];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === '\\') escaped = true;
+        else if (c === '"') inString = false;
+        continue;
+      }
+
+      if (c === '"') {
+        inString = true;
+      } else if (c === '{' || c === '[') {
+        // Depth 1 is the outer array; objects directly inside it are segments
+        if (c === '{' && depth === 1) objectStart = scanIndex;
+        depth++;
+      } else if (c === '}' || c === ']') {
+        depth = Math.max(0, depth - 1);
+        if (c === '}' && depth === 1 && objectStart !== -1) {
+          const jsonStr = buffer.substring(objectStart, scanIndex + 1);
+          objectStart = -1;
+          try {
+            const segment = validateSegment(JSON.parse(jsonStr));
+            if (segment) {
+              completed.push(segment);
+              validCount++;
+            } else {
+              invalidCount++;
+            }
+          } catch (e) {
+            invalidCount++;
+          }
+        }
+      }
+    }
+
+    return completed;
+  };
+
+  return {
+    push,
+    // The full raw response so far (used for the text fallback)
+    getRawText: () => buffer,
+    getStats: () => ({ valid: validCount, invalid: invalidCount }),
+  };
+};
@@ -0,0 +1,193 @@
+import { TranscriptBlock, TranscriptDocument } from "../types";
+import { serializeBlock } from "./transcriptDocument";
+
+// Segment-level and character-level comparison of two transcript versions.
+// Text is compared per Unicode code point, so CJK text (which has no spaces
+// between words) diffs as precisely as Latin text.
+
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface TextDiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+export interface BlockDiff {
+  op: 'equal' | 'changed' | 'added' | 'removed';
+  before?: TranscriptBlock;
+  after?: TranscriptBlock;
+  beforeIndex: number; // -1 when the block only exists on one side
+  afterIndex: number;
+  parts?: TextDiffPart[]; // Character diff of the text (changed blocks only)
+  timeChanged?: boolean;
+  speakerChanged?: boolean;
+}
+
+export interface TranscriptDiff {
+  blocks: BlockDiff[];
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+interface Edit {
+  op: DiffOp;
+  a: number; // Index in the old sequence (-1 for added)
+  b: number; // Index in the new sequence (-1 for removed)
+}
+
+// Myers keeps one copy of its frontier per edit step; bound the total memory
+const MAX_TRACE_CELLS = 4_000_000;
+
+/**
+ * Shortest edit script between two sequences (Myers' O(ND) algorithm) after
+ * trimming the common prefix and suffix. When the sequences differ too much the
+ * middle part is reported as removed-then-added instead.
+ */
+const diffSequences = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Edit[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix
+    && equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])) suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const edits: Edit[] = [];
+  for (let i = 0; i < prefix; i++) edits.push({ op: 'equal', a: i, b: i });
+
+  const middle: Edit[] = [];
+  const max = n + m;
+  const width = 2 * max + 2;
+  const maxSteps = Math.min(max, Math.floor(MAX_TRACE_CELLS / width));
+  const trace: Int32Array[] = [];
+  let v: Int32Array = new Int32Array(width);
+  let found = max === 0;
+
+  for (let d = 0; d <= maxSteps && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[max + k - 1] < v[max + k + 1])) ? v[max + k + 1] : v[max + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[prefix + x], b[prefix + y])) { x++; y++; }
+      v[max + k] = x;
+      if (x >= n && y >= m) { found = true; break; }
+    }
+  }
+
+  if (!found) {
+    for (let i = 0; i < n; i++) middle.push({ op: 'removed', a: prefix + i, b: -1 });
+    for (let j = 0; j < m; j++) middle.push({ op: 'added', a: -1, b: prefix + j });
+  } else if (max > 0) {
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      v = trace[d];
+      const k = x - y;
+      const prevK = (k === -d || (k !== d && v[max + k - 1] < v[max + k + 1])) ? k + 1 : k - 1;
+      const prevX = v[max + prevK];
+      const prevY = prevX - prevK;
+      while (x > prevX && y > prevY) {
+        x--; y--;
+        middle.push({ op: 'equal', a: prefix + x, b: prefix + y });
+      }
+      if (d > 0) {
+        if (x === prevX) middle.push({ op: 'added', a: -1, b: prefix + prevY });
+        else middle.push({ op: 'removed', a: prefix + prevX, b: -1 });
+      }
+      x = prevX;
+      y = prevY;
+    }
+    middle.reverse();
+  }
+
+  edits.push(...middle);
+  for (let i = suffix; i > 0; i--) edits.push({ op: 'equal', a: a.length - i, b: b.length - i });
+  return edits;
+};
+
+// Character diff with consecutive characters of the same kind merged into parts
+export const diffText = (before: string, after: string): TextDiffPart[] => {
+  const a = Array.from(before);
+  const b = Array.from(after);
+  const parts: TextDiffPart[] = [];
+  diffSequences(a, b, (x, y) => x === y).forEach(edit => {
+    const char = edit.op === 'added' ? b[edit.b] : a[edit.a];
+    const last = parts[parts.length - 1];
+    if (last && last.op === edit.op) last.text += char;
+    else parts.push({ op: edit.op, text: char });
+  });
+  return parts;
+};
+
+const blockText = (block: TranscriptBlock): string =>
+  block.type === 'segment' ? block.text : block.type === 'separator' ? block.label : block.text;
+
+const compareBlocks = (before: TranscriptBlock, after: TranscriptBlock, beforeIndex: number, afterIndex: number): BlockDiff => {
+  if (serializeBlock(before) === serializeBlock(after)) {
+    return { op: 'equal', before, after, beforeIndex, afterIndex };
+  }
+  const diff: BlockDiff = {
+    op: 'changed', before, after, beforeIndex, afterIndex,
+    parts: diffText(blockText(before), blockText(after)),
+  };
+  if (before.type === 'segment' && after.type === 'segment') {
+    diff.timeChanged = before.start !== after.start || (before.end || '') !== (after.end || '');
+    diff.speakerChanged = before.speaker !== after.speaker;
+  }
+  return diff;
+};
+
+/**
+ * Aligns the blocks of two documents. Blocks match when they keep the same ID
+ * (edited in place) or have identical content; unmatched blocks of the same type
+ * between two matches are paired up in order and reported as changed.
+ */
+export const diffTranscripts = (before: TranscriptDocument, after: TranscriptDocument): TranscriptDiff => {
+  const a = before.blocks;
+  const b = after.blocks;
+  const keysA = a.map(serializeBlock);
+  const keysB = b.map(serializeBlock);
+  const edits = diffSequences(
+    a.map((_, i) => i),
+    b.map((_, j) => j),
+    (i, j) => a[i].id === b[j].id || keysA[i] === keysB[j]
+  );
+
+  const result: TranscriptDiff = { blocks: [], added: 0, removed: 0, changed: 0 };
+  const push = (diff: BlockDiff) => {
+    result.blocks.push(diff);
+    if (diff.op !== 'equal') result[diff.op]++;
+  };
+
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    const unpaired = [...added];
+    removed.forEach(i => {
+      const pair = unpaired.findIndex(j => b[j].type === a[i].type);
+      if (pair === -1) {
+        push({ op: 'removed', before: a[i], beforeIndex: i, afterIndex: -1 });
+        return;
+      }
+      // Added blocks before the paired one keep their position
+      unpaired.splice(0, pair).forEach(j => push({ op: 'added', after: b[j], beforeIndex: -1, afterIndex: j }));
+      const j = unpaired.shift()!;
+      push(compareBlocks(a[i], b[j], i, j));
+    });
+    unpaired.forEach(j => push({ op: 'added', after: b[j], beforeIndex: -1, afterIndex: j }));
+    removed = [];
+    added = [];
+  };
+
+  edits.forEach(edit => {
+    if (edit.op === 'removed') removed.push(edit.a);
+    else if (edit.op === 'added') added.push(edit.b);
+    else {
+      flush();
+      push(compareBlocks(a[edit.a], b[edit.b], edit.a, edit.b));
+    }
+  });
+  flush();
+  return result;
+};
@@ -0,0 +1,276 @@
+import { TranscriptBlock, TranscriptDocument, TranscriptSegmentBlock } from "../types";
+import { parseTimeToSeconds, formatSecondsToTime } from "../utils/time";
+
+// Transcript document model: the plain-text transcript parsed into ordered blocks
+// with stable IDs. All operations are pure and return a new document (or the same
+// instance when nothing changed), so the store can keep snapshots for undo/redo.
+
+const SEGMENT_LINE_REGEX = /^\[(\d{1,2}:\d{2}(?::\d{2})?)(?:\s*-\s*(\d{1,2}:\d{2}(?::\d{2})?))?\]\s*(?:(?:\*\*)?([^*:]*?)(?:\*\*)?:)?\s*(.*)/;
+// Text the line regex would read as a speaker label ("Note: ...")
+const SPEAKER_LABEL_REGEX = /^(?:\*\*)?[^*:]*?(?:\*\*)?:/;
+const SEPARATOR_START_REGEX = /Start:\s*(\d{1,2}:\d{2}(?::\d{2})?)/;
+const SEPARATOR_SOURCE_REGEX = /接續檔案:\s*(.+?)\s*\|/;
+const CJK_REGEX = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+let idCounter = 0;
+export const createBlockId = () => `b${Date.now().toString(36)}${(idCounter++).toString(36)}`;
+
+export const createEmptyDocument = (): TranscriptDocument => ({ blocks: [], updatedAt: Date.now() });
+
+// --- Text format ---
+
+export const parseTranscriptLine = (line: string, id: string = createBlockId()): TranscriptBlock => {
+  const trimmed = line.trim();
+
+  if (trimmed.startsWith('--- [')) {
+    const startMatch = trimmed.match(SEPARATOR_START_REGEX);
+    const sourceMatch = trimmed.match(SEPARATOR_SOURCE_REGEX);
+    return { id, type: 'separator', label: trimmed.replace(/---/g, '').trim(), startTime: startMatch?.[1], source: sourceMatch?.[1], raw: line };
+  }
+
+  const match = trimmed ? line.match(SEGMENT_LINE_REGEX) : null;
+  if (match) {
+    return {
+      id,
+      type: 'segment',
+      start: match[1],
+      end: match[2],
+      speaker: (match[3] || '').trim(),
+      text: match[4],
+      raw: line,
+    };
+  }
+
+  return { id, type: 'raw', text: line };
+};
+
+export const formatSegmentBlock = (block: Pick<TranscriptSegmentBlock, 'start' | 'end' | 'speaker' | 'text'>): string => {
+  const time = block.end ? `[${block.start} - ${block.end}]` : `[${block.start}]`;
+  // No speaker but text with a colon: an empty label (": text") keeps it unattributed when re-parsed
+  const label = block.speaker ? `${block.speaker}: ` : SPEAKER_LABEL_REGEX.test(block.text) ? ': ' : '';
+  return `${time} ${label}${block.text}`;
+};
+
+export const serializeBlock = (block: TranscriptBlock): string => {
+  switch (block.type) {
+    case 'segment': return block.raw ?? formatSegmentBlock(block);
+    case 'separator': return block.raw;
+    default: return block.text;
+  }
+};
+
+export const serializeTranscript = (doc: TranscriptDocument): string =>
+  doc.blocks.map(serializeBlock).join('\n');
+
+/**
+ * Parses transcript text into a document. When `previous` is given, lines that
+ * are unchanged keep their block IDs (matched by content, in order), so IDs stay
+ * stable while a job streams more text or the text is replaced wholesale.
+ * The unchanged leading lines keep their block objects and are not re-parsed,
+ * so a streamed update only costs as much as the tail that changed.
+ */
+export const parseTranscript = (text: string, previous?: TranscriptDocument): TranscriptDocument => {
+  if (!text) return createEmptyDocument();
+
+  const lines = text.split('\n');
+  const previousBlocks = previous?.blocks || [];
+  let prefix = 0;
+  while (prefix < lines.length && prefix < previousBlocks.length && serializeBlock(previousBlocks[prefix]) === lines[prefix]) {
+    prefix++;
+  }
+
+  const reusable = new Map<string, string[]>();
+  const previousById = new Map<string, TranscriptBlock>();
+  previousBlocks.slice(prefix).forEach(b => {
+    previousById.set(b.id, b);
+    const line = serializeBlock(b);
+    const ids = reusable.get(line);
+    if (ids) ids.push(b.id); else reusable.set(line, [b.id]);
+  });
+
+  const tail = lines.slice(prefix).map(line => {
+    const id = reusable.get(line)?.shift();
+    const parsed = parseTranscriptLine(line, id);
+    // Metadata is not part of the text format; carry it over for reused segments
+    if (id && parsed.type === 'segment') {
+      const old = previousById.get(id);
+      if (old?.type === 'segment' && old.meta) parsed.meta = old.meta;
+    }
+    return parsed;
+  });
+
+  return { blocks: [...previousBlocks.slice(0, prefix), ...tail], updatedAt: Date.now() };
+};
+
+// File-part offset (seconds) in effect at each block, from the preceding separator's Start time
+export const getBlockOffsets = (blocks: TranscriptBlock[]): number[] => {
+  let offset = 0;
+  return blocks.map(b => {
+    if (b.type === 'separator' && b.startTime) offset = parseTimeToSeconds(b.startTime);
+    return offset;
+  });
+};
+
+export interface PlaybackSegment {
+  id: string;
+  start: number; // Seconds from the start of the media file
+  end: number;
+}
+
+/**
+ * Segments of the file part that was transcribed from `sourceName`, timed relative
+ * to that file (segment times are stored without the part offset). Falls back to
+ * the leading part when no separator names the file. A missing end time runs to
+ * the next segment.
+ */
+export const getPlaybackTimeline = (blocks: TranscriptBlock[], sourceName?: string): PlaybackSegment[] => {
+  const hasNamedPart = !!sourceName && blocks.some(b => b.type === 'separator' && b.source === sourceName);
+  const timeline: PlaybackSegment[] = [];
+  let inPart = !hasNamedPart;
+
+  blocks.forEach(b => {
+    if (b.type === 'separator') {
+      if (b.startTime) inPart = hasNamedPart && b.source === sourceName;
+      return;
+    }
+    if (b.type !== 'segment' || !inPart) return;
+    const start = parseTimeToSeconds(b.start);
+    timeline.push({ id: b.id, start, end: b.end ? parseTimeToSeconds(b.end) : start });
+  });
+
+  timeline.forEach((s, i) => {
+    const next = timeline[i + 1];
+    if (s.end <= s.start && next) s.end = next.start;
+  });
+  return timeline;
+};
+
+// Last segment that has started by `time` and not yet ended
+export const findSegmentAt = (timeline: PlaybackSegment[], time: number): PlaybackSegment | undefined => {
+  for (let i = timeline.length - 1; i >= 0; i--) {
+    const s = timeline[i];
+    if (s.start <= time) return time < Math.max(s.end, s.start + 1) ? s : undefined;
+  }
+  return undefined;
+};
+
+// --- Operations ---
+
+const withBlocks = (doc: TranscriptDocument, blocks: TranscriptBlock[]): TranscriptDocument => ({
+  ...doc,
+  blocks,
+  updatedAt: Date.now(),
+});
+
+export type SegmentPatch = Partial<Pick<TranscriptSegmentBlock, 'start' | 'end' | 'speaker' | 'text' | 'meta'>>;
+
+export const updateSegment = (doc: TranscriptDocument, id: string, patch: SegmentPatch): TranscriptDocument => {
+  const index = doc.blocks.findIndex(b => b.id === id);
+  const block = doc.blocks[index];
+  if (!block || block.type !== 'segment') return doc;
+
+  const { raw, ...rest } = block;
+  const updated: TranscriptSegmentBlock = { ...rest, ...patch };
+  const blocks = [...doc.blocks];
+  blocks[index] = updated;
+  return withBlocks(doc, blocks);
+};
+
+// Replaces a block with a freshly parsed line, keeping its ID
+export const replaceBlockLine = (doc: TranscriptDocument, id: string, line: string): TranscriptDocument => {
+  const index = doc.blocks.findIndex(b => b.id === id);
+  if (index === -1) return doc;
+  const blocks = [...doc.blocks];
+  blocks[index] = parseTranscriptLine(line, id);
+  return withBlocks(doc, blocks);
+};
+
+// Inserts blocks at index (clamped); a negative index appends
+export const insertBlocks = (doc: TranscriptDocument, index: number, inserted: TranscriptBlock[]): TranscriptDocument => {
+  if (inserted.length === 0) return doc;
+  const at = index < 0 ? doc.blocks.length : Math.min(index, doc.blocks.length);
+  return withBlocks(doc, [...doc.blocks.slice(0, at), ...inserted, ...doc.blocks.slice(at)]);
+};
+
+export const deleteBlocks = (doc: TranscriptDocument, ids: Iterable<string>): TranscriptDocument => {
+  const remove = new Set(ids);
+  const blocks = doc.blocks.filter(b => !remove.has(b.id));
+  return blocks.length === doc.blocks.length ? doc : withBlocks(doc, blocks);
+};
+
+// No space between CJK characters, one space between Latin words
+export const joinSegmentText = (a: string, b: string): string => {
+  const left = a.trimEnd();
+  const right = b.trimStart();
+  if (!left || !right) return left + right;
+  return CJK_REGEX.test(left[left.length - 1]) || CJK_REGEX.test(right[0]) ? left + right : `${left} ${right}`;
+};
+
+/**
+ * Merges the given segments into the first one. They must form a contiguous run
+ * in the same file part: only blank lines may sit between them, and those are
+ * dropped. Returns the document unchanged when the selection cannot be merged.
+ */
+export const mergeSegments = (doc: TranscriptDocument, ids: Iterable<string>): TranscriptDocument => {
+  const idSet = new Set(ids);
+  const indices = doc.blocks.map((b, i) => idSet.has(b.id) ? i : -1).filter(i => i !== -1);
+  if (indices.length < 2) return doc;
+
+  const first = indices[0];
+  const last = indices[indices.length - 1];
+  const run = doc.blocks.slice(first, last + 1);
+  const contiguous = run.every(b =>
+    b.type === 'segment' ? idSet.has(b.id) : b.type === 'raw' && !b.text.trim()
+  );
+  if (!contiguous) return doc;
+
+  const segments = run.filter((b): b is TranscriptSegmentBlock => b.type === 'segment');
+  const head = segments[0];
+  const tail = segments[segments.length - 1];
+  const { raw, ...headRest } = head;
+  const merged: TranscriptSegmentBlock = {
+    ...headRest,
+    end: tail.end || tail.start,
+    text: segments.slice(1).reduce((text, s) => joinSegmentText(text, s.text), head.text),
+  };
+  // Comment threads of all merged segments move to the merged one
+  const threads = segments.flatMap(s => s.meta?.threads || []);
+  if (threads.length > 0) merged.meta = { ...merged.meta, threads };
+
+  return withBlocks(doc, [...doc.blocks.slice(0, first), merged, ...doc.blocks.slice(last + 1)]);
+};
+
+// Boundary time (seconds, relative to the file part) interpolated by character count
+export const interpolateSplitTime = (block: TranscriptSegmentBlock, at: number): number => {
+  const start = parseTimeToSeconds(block.start);
+  const end = block.end ? parseTimeToSeconds(block.end) : start;
+  const ratio = at / Math.max(1, block.text.length);
+  return Math.round(start + (end - start) * ratio);
+};
+
+/**
+ * Splits a segment at a character offset of its text. The split time defaults to
+ * a position interpolated by character count between start and end.
+ */
+export const splitSegment = (doc: TranscriptDocument, id: string, at: number, splitTime?: string): TranscriptDocument => {
+  const index = doc.blocks.findIndex(b => b.id === id);
+  const block = doc.blocks[index];
+  if (!block || block.type !== 'segment') return doc;
+
+  const leftText = block.text.slice(0, at).trim();
+  const rightText = block.text.slice(at).trim();
+  if (!leftText || !rightText) return doc;
+
+  const time = splitTime || formatSecondsToTime(interpolateSplitTime(block, at));
+
+  const { raw, ...rest } = block;
+  const left: TranscriptSegmentBlock = { ...rest, end: time, text: leftText };
+  const right: TranscriptSegmentBlock = { ...rest, id: createBlockId(), start: time, end: block.end, text: rightText };
+  // Comment threads stay with the first half only
+  if (block.meta?.threads) {
+    const { threads, ...meta } = block.meta;
+    right.meta = Object.keys(meta).length > 0 ? meta : undefined;
+  }
+
+  return withBlocks(doc, [...doc.blocks.slice(0, index), left, right, ...doc.blocks.slice(index + 1)]);
+};
@@ -0,0 +1,52 @@
+import { TranscriptDocument } from "../types";
+
+// Keeps the edited transcript document (including segment metadata such as review
+// state) in localStorage, so edits survive a reload even after the job is finished.
+
+const TRANSCRIPT_STORAGE_KEY = 'cai_transcript';
+const SAVE_THROTTLE_MS = 1500;
+
+export const loadSavedTranscript = (): TranscriptDocument | null => {
+  try {
+    const raw = localStorage.getItem(TRANSCRIPT_STORAGE_KEY);
+    if (!raw) return null;
+    const doc = JSON.parse(raw) as TranscriptDocument;
+    return doc && Array.isArray(doc.blocks) ? doc : null;
+  } catch (e) {
+    console.warn("Failed to load saved transcript", e);
+    return null;
+  }
+};
+
+let pendingSave: ReturnType<typeof setTimeout> | null = null;
+let latestDoc: TranscriptDocument | null = null;
+
+const writeTranscript = (doc: TranscriptDocument) => {
+  try {
+    if (doc.blocks.length === 0) {
+      localStorage.removeItem(TRANSCRIPT_STORAGE_KEY);
+    } else {
+      localStorage.setItem(TRANSCRIPT_STORAGE_KEY, JSON.stringify(doc));
+    }
+  } catch (e) {
+    console.warn("Failed to save transcript (storage full?)", e);
+  }
+};
+
+// Throttled: edits and streamed text arrive many times per second
+export const persistTranscript = (doc: TranscriptDocument) => {
+  latestDoc = doc;
+  if (pendingSave) return;
+  pendingSave = setTimeout(() => {
+    pendingSave = null;
+    if (latestDoc) writeTranscript(latestDoc);
+  }, SAVE_THROTTLE_MS);
+};
+
+// Writes a pending throttled save now; called when the page is being hidden or unloaded
+export const flushTranscript = () => {
+  if (!pendingSave) return;
+  clearTimeout(pendingSave);
+  pendingSave = null;
+  if (latestDoc) writeTranscript(latestDoc);
+};
@@ -0,0 +1,118 @@
+import { TranscriptDocument, TranscriptSegmentBlock } from "../types";
+import { getBlockOffsets, updateSegment } from "./transcriptDocument";
+import { parseTimeToSeconds } from "../utils/time";
+
+// Find/replace over segment text. Matching is pure; replacing returns a new
+// document so a whole replace-all can be applied as one undoable operation.
+
+export interface SearchOptions {
+  query: string;
+  caseSensitive: boolean;
+  regex: boolean;
+}
+
+export interface SearchScope {
+  speaker?: string; // Speaker label as stored in the transcript
+  ids?: Set<string>; // Only these segments (table selection)
+  from?: string; // Displayed (offset-applied) time range, inclusive
+  to?: string;
+}
+
+export interface SearchMatch {
+  blockId: string;
+  index: number; // Character offset in the segment text
+  length: number;
+  groups: string[]; // Full match followed by capture groups
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the global regex for a search. Returns an error message instead when the
+ * pattern is invalid, and null for an empty query.
+ */
+export const buildSearchRegex = (options: SearchOptions): RegExp | string | null => {
+  if (!options.query) return null;
+  const source = options.regex ? options.query : escapeRegExp(options.query);
+  try {
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+  } catch (e: any) {
+    return e.message || 'Invalid regular expression';
+  }
+};
+
+const inScope = (block: TranscriptSegmentBlock, offset: number, scope: SearchScope): boolean => {
+  if (scope.speaker !== undefined && block.speaker !== scope.speaker) return false;
+  if (scope.ids && !scope.ids.has(block.id)) return false;
+  if (scope.from || scope.to) {
+    const start = parseTimeToSeconds(block.start) + offset;
+    if (scope.from && start < parseTimeToSeconds(scope.from)) return false;
+    if (scope.to && start > parseTimeToSeconds(scope.to)) return false;
+  }
+  return true;
+};
+
+export const findMatches = (doc: TranscriptDocument, regex: RegExp, scope: SearchScope = {}): SearchMatch[] => {
+  const offsets = getBlockOffsets(doc.blocks);
+  const matches: SearchMatch[] = [];
+
+  doc.blocks.forEach((block, i) => {
+    if (block.type !== 'segment' || !inScope(block, offsets[i], scope)) return;
+    regex.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = regex.exec(block.text)) !== null) {
+      if (m[0].length === 0) {
+        // Zero-length matches (e.g. ^ or \b) cannot be replaced meaningfully; skip ahead
+        regex.lastIndex++;
+        continue;
+      }
+      matches.push({ blockId: block.id, index: m.index, length: m[0].length, groups: Array.from(m, g => g ?? '') });
+    }
+  });
+
+  return matches;
+};
+
+// Expands $&, $1..$99 and $$ the way String.prototype.replace does
+export const expandReplacement = (template: string, match: SearchMatch, useRegex: boolean): string => {
+  if (!useRegex) return template;
+  return template.replace(/\$(\$|&|\d{1,2})/g, (token, ref) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match.groups[0];
+    const n = Number(ref);
+    return n > 0 && n < match.groups.length ? match.groups[n] : token;
+  });
+};
+
+/**
+ * Replaces the given matches. Matches must come from `findMatches` on the same
+ * document; overlapping or stale ones are skipped.
+ */
+export const replaceMatches = (
+  doc: TranscriptDocument,
+  matches: SearchMatch[],
+  replacement: string,
+  useRegex: boolean
+): TranscriptDocument => {
+  const byBlock = new Map<string, SearchMatch[]>();
+  matches.forEach(m => {
+    const list = byBlock.get(m.blockId);
+    if (list) list.push(m); else byBlock.set(m.blockId, [m]);
+  });
+
+  return Array.from(byBlock.entries()).reduce((current, [blockId, blockMatches]) => {
+    const block = current.blocks.find(b => b.id === blockId);
+    if (!block || block.type !== 'segment') return current;
+
+    let text = '';
+    let cursor = 0;
+    [...blockMatches].sort((a, b) => a.index - b.index).forEach(m => {
+      if (m.index < cursor || block.text.slice(m.index, m.index + m.length) !== m.groups[0]) return;
+      text += block.text.slice(cursor, m.index) + expandReplacement(replacement, m, useRegex);
+      cursor = m.index + m.length;
+    });
+    text += block.text.slice(cursor);
+
+    return text === block.text ? current : updateSegment(current, blockId, { text });
+  }, doc);
+};
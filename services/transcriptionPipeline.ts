@@ -0,0 +1,199 @@
+import { TranscriptionError, ChunkStatus, TranscriptionJob, TokenUsage } from "../types";
+import { MAX_FILE_SIZE_INLINE } from "../constants";
+import { getProvider } from "./providers";
+import { STOPPED_MESSAGE } from "./apiErrors";
+import { getSelectedTerms, createGlossaryCorrector } from "./glossaryStore";
+import { decodeMediaFile, extractChunkFile, DecodedMedia } from "./mediaChunker";
+import { formatSecondsToTime, parseTimeToSeconds, LINE_TIME_REGEX } from "../utils/time";
+
+export const DEFAULT_CHUNK_MINUTES = 10;
+const MAX_LOG_ENTRIES = 200;
+
+// Rewrites the leading [start - end] of a transcript line by offsetSeconds
+export const shiftLineTimestamps = (line: string, offsetSeconds: number): string => {
+  if (!offsetSeconds) return line;
+  return line.replace(LINE_TIME_REGEX, (_m, start: string, end?: string) => {
+    const newStart = formatSecondsToTime(parseTimeToSeconds(start) + offsetSeconds);
+    if (!end) return `[${newStart}]`;
+    const newEnd = formatSecondsToTime(parseTimeToSeconds(end) + offsetSeconds);
+    return `[${newStart} - ${newEnd}]`;
+  });
+};
+
+// Buffers streamed text until full lines are available, then shifts their timestamps
+const createLineShifter = (offsetSeconds: number, emit: (lines: string[]) => void) => {
+  let pending = '';
+  return {
+    push: (text: string) => {
+      pending += text;
+      const lastBreak = pending.lastIndexOf('\n');
+      if (lastBreak === -1) return;
+      const complete = pending.substring(0, lastBreak);
+      pending = pending.substring(lastBreak + 1);
+      emit(complete.split('\n').map(l => shiftLineTimestamps(l, offsetSeconds)));
+    },
+    flush: () => {
+      if (pending.trim()) emit([shiftLineTimestamps(pending, offsetSeconds)]);
+      pending = '';
+    },
+    // Drops an incomplete trailing line (used when a chunk is interrupted)
+    discard: () => {
+      pending = '';
+    }
+  };
+};
+
+// Highest end (or start) timestamp found in the given lines, in seconds
+const getLinesEndSeconds = (lines: string[]): number | null => {
+  let max: number | null = null;
+  for (const line of lines) {
+    const match = line.trim().match(LINE_TIME_REGEX);
+    if (!match) continue;
+    const seconds = parseTimeToSeconds(match[2] || match[1]);
+    if (max === null || seconds > max) max = seconds;
+  }
+  return max;
+};
+
+export const formatChunkFailureLine = (chunk: ChunkStatus) =>
+  `--- [片段 ${chunk.index + 1} 轉錄失敗: ${formatSecondsToTime(chunk.start)} - ${formatSecondsToTime(chunk.end)}] ---`;
+
+export interface PipelineCallbacks {
+  onJobChange: (job: TranscriptionJob) => void;
+  onPhase?: (phase: 'decoding' | 'uploading' | 'transcribing') => void;
+  onUploadProgress?: (sentBytes: number, totalBytes: number) => void;
+  onUsage?: (usage: TokenUsage, chunkIndex: number) => void;
+}
+
+/**
+ * Runs (or resumes) a transcription job. Every chunk that is not completed is
+ * transcribed in order through the selected provider, starting from its
+ * `completedUntil` point so nothing already transcribed is requested again.
+ *
+ * Chunked jobs decode the source once and send time-accurate WAV slices;
+ * timestamps are rewritten relative to the start of the source file so the
+ * stitched transcript reads as one. A failing chunk is recorded and skipped,
+ * only a user stop aborts the job. A non-chunked job sends the original file
+ * on its first run and only decodes when it has to resume mid-file.
+ */
+export const runTranscriptionJob = async (
+  initialJob: TranscriptionJob,
+  file: File,
+  callbacks: PipelineCallbacks,
+  signal: AbortSignal
+): Promise<TranscriptionJob> => {
+  let job: TranscriptionJob = { ...initialJob, status: 'transcribing' };
+  let media: DecodedMedia | null = null;
+  const provider = getProvider(job.settings);
+  // Post-processing pass: fix known misspellings from the selected glossaries
+  const correctLine = createGlossaryCorrector(getSelectedTerms(job.settings.glossaryIds));
+
+  const updateChunk = (index: number, patch: Partial<ChunkStatus>) => {
+    job = {
+      ...job,
+      chunks: job.chunks.map(c => c.index === index ? { ...c, ...patch } : c),
+      updatedAt: Date.now(),
+    };
+    callbacks.onJobChange(job);
+  };
+
+  const getMedia = async (): Promise<DecodedMedia> => {
+    if (media) return media;
+    callbacks.onPhase?.('decoding');
+    try {
+      media = await decodeMediaFile(file);
+      return media;
+    } catch (e: any) {
+      throw {
+        type: 'general',
+        message: `無法解碼檔案，請嘗試先使用「本機影音轉檔」轉為 MP3。(${e?.message || e})`
+      } as TranscriptionError;
+    }
+  };
+
+  for (const chunk of job.chunks) {
+    if (chunk.status === 'completed') continue;
+    if (signal.aborted) break;
+
+    const resumeFrom = chunk.completedUntil ?? chunk.start;
+    let chunkFile = file;
+    const chunkEnd = chunk.end > 0 ? chunk.end : job.duration;
+
+    if (job.chunked || resumeFrom > 0) {
+      const decoded = await getMedia();
+      const end = chunk.end > 0 ? chunk.end : decoded.duration;
+      chunkFile = extractChunkFile(decoded, { index: chunk.index, start: resumeFrom, end }, file.name);
+      callbacks.onPhase?.('transcribing');
+    } else {
+      callbacks.onPhase?.(provider.id === 'gemini' && file.size > MAX_FILE_SIZE_INLINE ? 'uploading' : 'transcribing');
+    }
+
+    // Drop the incomplete trailing line left over from an interrupted run
+    let chunkText = (chunk.text || '').replace(/\n+$/, '');
+    let completedUntil = resumeFrom;
+    updateChunk(chunk.index, { status: 'transcribing', error: undefined, text: chunkText, completedUntil });
+
+    const shifter = createLineShifter(resumeFrom, (lines) => {
+      const kept = lines.filter(l => l.trim()).map(l => correctLine ? correctLine(l) : l);
+      if (kept.length === 0) return;
+      chunkText = chunkText ? `${chunkText}\n${kept.join('\n')}` : kept.join('\n');
+      const lastEnd = getLinesEndSeconds(kept);
+      if (lastEnd !== null && lastEnd > completedUntil) completedUntil = lastEnd;
+      updateChunk(chunk.index, { text: chunkText, completedUntil });
+    });
+
+    try {
+      await provider.transcribe(chunkFile, job.settings, (text) => {
+        callbacks.onPhase?.('transcribing');
+        shifter.push(text);
+      }, signal, {
+        onUploadProgress: (sent, total) => {
+          callbacks.onPhase?.('uploading');
+          callbacks.onUploadProgress?.(sent, total);
+        },
+        onAttempt: (entry) => {
+          job = { ...job, log: [...(job.log || []), { ...entry, chunkIndex: chunk.index }].slice(-MAX_LOG_ENTRIES) };
+          callbacks.onJobChange(job);
+        },
+        onUsage: (usage) => callbacks.onUsage?.(usage, chunk.index),
+        onRemoteFile: (remote) => {
+          if (job.remoteFiles?.includes(remote.name)) return;
+          job = { ...job, remoteFiles: [...(job.remoteFiles || []), remote.name] };
+          callbacks.onJobChange(job);
+        }
+      }, chunkEnd > resumeFrom ? chunkEnd - resumeFrom : undefined);
+
+      if (signal.aborted) {
+        shifter.discard();
+        updateChunk(chunk.index, { status: 'pending' });
+        break;
+      }
+      shifter.flush();
+      updateChunk(chunk.index, { status: 'completed', completedUntil: chunk.end || completedUntil });
+    } catch (err: any) {
+      shifter.discard();
+      if (signal.aborted || err?.message === STOPPED_MESSAGE) {
+        updateChunk(chunk.index, { status: 'pending' });
+        break;
+      }
+      console.warn(`Chunk ${chunk.index + 1} failed`, err);
+      updateChunk(chunk.index, { status: 'error', error: err?.message || String(err) });
+      // A single-file job has nothing else to do: surface the error as before
+      if (!job.chunked) {
+        job = { ...job, status: 'error' };
+        callbacks.onJobChange(job);
+        throw err;
+      }
+    }
+  }
+
+  if (signal.aborted) {
+    job = { ...job, status: 'stopped' };
+    callbacks.onJobChange(job);
+    throw { type: 'general', message: STOPPED_MESSAGE } as TranscriptionError;
+  }
+
+  job = { ...job, status: 'completed' };
+  callbacks.onJobChange(job);
+  return job;
+};
@@ -0,0 +1,151 @@
+import { TokenUsage, UsageRecord, TranscriptionSettings } from "../types";
+import { AI_MODELS, MAX_OUTPUT_TOKENS, AUDIO_TOKENS_PER_SECOND, VIDEO_TOKENS_PER_SECOND } from "../constants";
+import { DEFAULT_CHUNK_MINUTES } from "./transcriptionPipeline";
+import { csvCell } from "../utils/csv";
+
+const LEDGER_STORAGE_KEY = 'cai_usage_ledger';
+const MAX_LEDGER_ENTRIES = 5000;
+
+// Rough transcript density, tuned on Cantonese / mixed-language recordings
+const SPOKEN_TOKENS_PER_MINUTE = 300;
+const SEGMENTS_PER_MINUTE = 8;
+const SEGMENT_OVERHEAD_TOKENS = { text: 14, structured: 40 }; // Timestamp + speaker label (+ JSON keys)
+const PROMPT_TOKENS_PER_REQUEST = 1500; // System instruction + language rules
+
+const getModelInfo = (modelId: string) => AI_MODELS.find(m => m.id === modelId);
+
+export const getOutputTokenLimit = (modelId: string) =>
+  Math.min(getModelInfo(modelId)?.maxOutputTokens ?? MAX_OUTPUT_TOKENS, MAX_OUTPUT_TOKENS);
+
+// Null when the model is not in AI_MODELS (e.g. discovered via listModels) or runs locally
+export const calculateCostUsd = (usage: TokenUsage): number | null => {
+  const pricing = getModelInfo(usage.model)?.pricing;
+  if (!pricing) return null;
+  const audio = Math.min(usage.audioInputTokens || 0, usage.inputTokens);
+  return ((usage.inputTokens - audio) * pricing.input + audio * pricing.audioInput + usage.outputTokens * pricing.output) / 1e6;
+};
+
+export const formatTokens = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(n >= 100000 ? 0 : 1)}k` : String(n);
+export const formatUsd = (usd: number) => `US$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+export interface UsageEstimate {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+  requestOutputTokens: number; // Expected output of the longest single request
+  outputLimit: number;
+  exceedsOutputLimit: boolean;
+}
+
+/**
+ * Pre-flight estimate from media duration. Chunked jobs send 16 kHz WAV audio per
+ * chunk, so video frames are only billed when the whole file goes up as-is.
+ */
+export const estimateTranscriptionUsage = (durationSeconds: number, isVideo: boolean, settings: TranscriptionSettings): UsageEstimate | null => {
+  if (settings.provider === 'local' || !(durationSeconds > 0)) return null;
+
+  const chunkSeconds = (settings.chunkMinutes || DEFAULT_CHUNK_MINUTES) * 60;
+  const chunked = !!settings.autoChunk && durationSeconds > chunkSeconds;
+  const requestSeconds = chunked ? chunkSeconds : durationSeconds;
+  const requests = Math.ceil(durationSeconds / requestSeconds);
+
+  const audioTokens = Math.round(durationSeconds * AUDIO_TOKENS_PER_SECOND);
+  const mediaTokens = isVideo && !chunked ? Math.round(durationSeconds * VIDEO_TOKENS_PER_SECOND) : audioTokens;
+  const inputTokens = mediaTokens + requests * PROMPT_TOKENS_PER_REQUEST;
+
+  const overhead = SEGMENT_OVERHEAD_TOKENS[settings.outputMode === 'text' ? 'text' : 'structured'];
+  const perMinute = SPOKEN_TOKENS_PER_MINUTE + SEGMENTS_PER_MINUTE * overhead;
+  const outputTokens = Math.round(durationSeconds / 60 * perMinute);
+  const requestOutputTokens = Math.round(requestSeconds / 60 * perMinute);
+  const outputLimit = getOutputTokenLimit(settings.model);
+
+  return {
+    requests,
+    inputTokens,
+    outputTokens,
+    costUsd: calculateCostUsd({ model: settings.model, inputTokens, audioInputTokens: audioTokens, outputTokens }),
+    requestOutputTokens,
+    outputLimit,
+    exceedsOutputLimit: requestOutputTokens > outputLimit,
+  };
+};
+
+// --- Ledger ---
+
+const listeners = new Set<() => void>();
+
+export const subscribeUsageLedger = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getUsageLedger = (): UsageRecord[] => {
+  try {
+    const raw = localStorage.getItem(LEDGER_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeLedger = (records: UsageRecord[]) => {
+  try {
+    localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(records.slice(-MAX_LEDGER_ENTRIES)));
+  } catch (e) {
+    console.warn("Failed to save usage ledger", e);
+  }
+  listeners.forEach(l => l());
+};
+
+export const recordUsage = (
+  usage: TokenUsage,
+  context: Pick<UsageRecord, 'kind' | 'jobId' | 'fileName' | 'chunkIndex'>
+): UsageRecord => {
+  const record: UsageRecord = {
+    ...usage,
+    ...context,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    time: Date.now(),
+    costUsd: calculateCostUsd(usage),
+  };
+  writeLedger([...getUsageLedger(), record]);
+  return record;
+};
+
+export const clearUsageLedger = () => writeLedger([]);
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number; // Sum over records with known pricing
+  unpricedRequests: number;
+}
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals =>
+  records.reduce<UsageTotals>((acc, r) => ({
+    requests: acc.requests + 1,
+    inputTokens: acc.inputTokens + r.inputTokens,
+    outputTokens: acc.outputTokens + r.outputTokens,
+    costUsd: acc.costUsd + (r.costUsd ?? 0),
+    unpricedRequests: acc.unpricedRequests + (r.costUsd === null ? 1 : 0),
+  }), { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedRequests: 0 });
+
+export const usageLedgerToCsv = (records: UsageRecord[]): string => {
+  const header = 'Time,Kind,Outcome,Model,File,Job,Chunk,Input Tokens,Output Tokens,Cost (USD)';
+  const lines = records.map(r => [
+    new Date(r.time).toISOString(),
+    r.kind,
+    r.outcome,
+    r.model,
+    r.fileName,
+    r.jobId,
+    r.chunkIndex !== undefined ? r.chunkIndex + 1 : '',
+    r.inputTokens,
+    r.outputTokens,
+    r.costUsd !== null ? r.costUsd.toFixed(6) : '',
+  ].map(csvCell).join(','));
+  return [header, ...lines].join('\n');
+};
@@ -11,10 +11,129 @@ export interface TranscriptionSettings {
   enableTimestamps: boolean;
   startTime: string; // Format "MM:SS" or "HH:MM:SS"
   customPrompt?: string; // Additional user instructions
+  outputMode?: TranscriptionOutputMode; // 'structured' (JSON segments) or 'text' (legacy free text)
+  provider?: TranscriptionProviderId; // Engine used for transcription and summaries (default 'gemini')
+  localServer?: LocalServerConfig; // Used when provider is 'local'
+  autoChunk?: boolean; // Long files: decode, split and transcribe chunk by chunk automatically
+  chunkMinutes?: number; // Chunk length used when autoChunk is on
+  deleteRemoteAfterJob?: boolean; // Delete uploaded files from the provider once a job completes
+  glossaryIds?: string[]; // Glossaries injected into the prompt and applied to the output
+}
+
+// One vocabulary entry: the spelling we want, and the misspellings / variants to replace
+export interface GlossaryTerm {
+  id: string;
+  term: string; // Preferred spelling
+  aliases: string[];
+  note?: string; // Context for the model, e.g. "company name" or "Cantonese slang for ..."
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  terms: GlossaryTerm[];
+  updatedAt: number;
+}
+
+export type TranscriptionOutputMode = 'structured' | 'text';
+
+export type TranscriptionProviderId = 'gemini' | 'local';
+
+// On-prem / development engine: an OpenAI-compatible or whisper.cpp HTTP server
+export interface LocalServerConfig {
+  baseUrl: string; // e.g. "http://localhost:8080"
+  flavor: 'openai' | 'whispercpp';
+  model: string; // e.g. "whisper-1" or "large-v3"
+  summaryModel?: string; // Chat model for summaries (OpenAI-compatible servers only)
+  apiKey?: string;
+}
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+// One model request made while transcribing, recorded in the job log
+export interface JobLogEntry {
+  time: number; // epoch ms
+  model: string;
+  attempt: number; // 1-based attempt number for this model
+  outcome: 'success' | 'error';
+  errorType?: TranscriptionError['type'];
+  status?: number | string; // HTTP status or API reason
+  message?: string;
+  waitMs?: number; // Backoff applied before the next attempt
+  chunkIndex?: number; // Set by the long-media pipeline
+}
+
+// Optional observers passed to TranscriptionProvider.transcribe
+export interface TranscriptionHooks {
+  onSegment?: (segment: TranscriptionSegment) => void;
+  onAttempt?: (entry: JobLogEntry) => void;
+  onUploadProgress?: (sentBytes: number, totalBytes: number) => void;
+  onRemoteFile?: (file: RemoteFileInfo, reused: boolean) => void; // Provider-side file used for this request
+  onUsage?: (usage: TokenUsage) => void; // Reported once per model request that returned usage, including stopped or failed ones
+}
+
+// Token counts reported by the model for a single request (usageMetadata)
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  audioInputTokens?: number; // Part of inputTokens billed at the audio rate
+  outputTokens: number; // Candidates + thinking tokens (both billed as output)
+  outcome?: 'success' | 'stopped' | 'error'; // Transcription attempts; stopped and failed ones are billed too
+}
+
+// One billed request in the persistent usage ledger
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  time: number; // epoch ms
+  kind: 'transcription' | 'summary';
+  costUsd: number | null; // null when the model has no known pricing
+  jobId?: string;
+  fileName?: string;
+  chunkIndex?: number;
+}
+
+// A file stored on the provider side (Gemini Files API)
+export interface RemoteFileInfo {
+  name: string; // Resource name, e.g. "files/abc123"
+  uri: string;
+  displayName?: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  state?: string; // PROCESSING | ACTIVE | FAILED
+  createTime?: string; // ISO
+  expirationTime?: string; // ISO
+}
+
+// Adapter interface implemented by every transcription backend.
+// Upload is part of `transcribe` rather than a separate member: Gemini uploads to (or
+// reuses a cached file on) the Files API inside `transcribe`, reporting progress through
+// `hooks.onUploadProgress` and the file used through `hooks.onRemoteFile`, while the
+// local server receives the media in the transcription request itself. Listing and deleting
+// uploaded files (RemoteFilesPanel) is Gemini-only and calls geminiService directly.
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  name: string;
+  // Streams transcript lines in the `[MM:SS - MM:SS] Speaker: Content` format.
+  // Returns silently when aborted, throws TranscriptionError otherwise.
+  transcribe: (
+    file: File,
+    settings: TranscriptionSettings,
+    onProgress: (text: string) => void,
+    signal: AbortSignal,
+    hooks?: TranscriptionHooks,
+    mediaDuration?: number // seconds, lets the provider detect a truncated transcript
+  ) => Promise<void>;
+  generateSummary: (text: string, settings: TranscriptionSettings, onUsage?: (usage: TokenUsage) => void) => Promise<string>;
+  listModels: (settings: TranscriptionSettings) => Promise<ProviderModel[]>;
 }
 
 export type ProcessingStatus = 
   | 'idle' 
+  | 'decoding' 
   | 'uploading' 
   | 'transcribing' 
   | 'completed' 
@@ -27,10 +146,48 @@ export interface TranscriptionError {
   type: 'network' | 'quota' | 'auth' | 'safety' | 'timeout' | 'general' | 'limit';
 }
 
+// Progress of one chunk in the automatic long-media pipeline
+export interface ChunkStatus {
+  index: number;
+  start: number; // seconds from the start of the source file
+  end: number;
+  status: 'pending' | 'transcribing' | 'completed' | 'error';
+  error?: string;
+  text?: string; // Complete transcript lines produced so far (absolute timestamps)
+  completedUntil?: number; // Seconds covered by `text`; resume restarts from here
+}
+
+// Identifies the source media across reloads (File objects cannot be persisted)
+export interface MediaFileRef {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+}
+
+// Persisted state of one transcription run, used to resume after stop / error / reload
+export interface TranscriptionJob {
+  id: string;
+  source: MediaFileRef;
+  settings: TranscriptionSettings;
+  duration: number; // seconds, 0 if unknown
+  chunked: boolean; // true when produced by the automatic long-media pipeline
+  chunks: ChunkStatus[]; // a non-chunked job has exactly one chunk covering the file
+  baseText: string; // Transcript that existed before the job started (incl. continuation separator)
+  log?: JobLogEntry[]; // Every model attempt (model, failure, backoff)
+  remoteFiles?: string[]; // Provider-side files (Gemini Files API names) used by this job
+  status: ProcessingStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One utterance as returned by the model in structured (JSON) mode
 export interface TranscriptionSegment {
+  start: string; // "MM:SS" or "HH:MM:SS", relative to the start of the file
+  end: string;
+  speaker: string;
   text: string;
-  timestamp?: string;
-  speaker?: string;
+  language?: string; // Language id from LANGUAGES (e.g. 'yue', 'en')
 }
 
 // Auth Types
@@ -38,4 +195,88 @@ export interface UserLicense {
   isPro: boolean;
   licenseKey?: string;
   activatedAt?: number;
-}
\ No newline at end of file
+}
+// --- Transcript document model ---
+
+// Proofreading state; segments without one are unreviewed
+export type ReviewState = 'unreviewed' | 'reviewed' | 'attention';
+
+// Per-segment metadata kept alongside the text (not part of the plain-text format)
+export interface SegmentMeta {
+  language?: string;
+  review?: ReviewState;
+  flag?: string; // Why the segment needs attention: a REVIEW_FLAGS id or free text
+  threads?: CommentThread[];
+}
+
+export interface TranscriptComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: number;
+}
+
+// A comment and its replies, attached to one segment
+export interface CommentThread {
+  id: string;
+  comments: TranscriptComment[];
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: number;
+}
+
+// One timestamped utterance. Times are stored as written in the text, i.e. relative
+// to the start of the file part the segment belongs to (see separator startTime).
+export interface TranscriptSegmentBlock {
+  id: string;
+  type: 'segment';
+  start: string;
+  end?: string;
+  speaker: string;
+  text: string;
+  meta?: SegmentMeta;
+  raw?: string; // Original line, kept until the block is edited so untouched lines round-trip exactly
+}
+
+// "--- [接續檔案: name | Start: HH:MM:SS] ---" and other "--- [...] ---" markers
+export interface TranscriptSeparatorBlock {
+  id: string;
+  type: 'separator';
+  label: string; // Text between the dashes
+  startTime?: string; // Offset applied to the following segments
+  source?: string; // File name of the part that starts here
+  raw: string;
+}
+
+// Anything that is not a segment or separator (blank lines, untimed text)
+export interface TranscriptRawBlock {
+  id: string;
+  type: 'raw';
+  text: string;
+}
+
+export type TranscriptBlock = TranscriptSegmentBlock | TranscriptSeparatorBlock | TranscriptRawBlock;
+
+export interface TranscriptDocument {
+  blocks: TranscriptBlock[];
+  updatedAt: number;
+}
+
+// Automatic snapshots: the raw AI output of a finished job, or a backup taken before a restore
+export type SnapshotKind = 'ai-output' | 'backup';
+
+// Named copy of the whole transcript document, e.g. the raw AI output before editing
+export interface TranscriptSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  kind?: SnapshotKind; // Unset for snapshots the user created
+  document: TranscriptDocument;
+}
+
+// Job details shown in the headers of document exports (Word, court transcript)
+export interface ExportInfo {
+  fileName?: string;
+  languages?: string[];
+  model?: string;
+}
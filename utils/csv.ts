@@ -0,0 +1,42 @@
+// Minimal RFC 4180 helpers shared by the CSV importers and exporters.
+
+// Splits one CSV line into cells, honouring quotes and "" escapes
+export const parseCsvLine = (line: string): string[] => {
+    const res: string[] = [];
+    let cur = '';
+    let inQuote = false;
+    for (let i = 0; i < line.length; i++) {
+        const c = line[i];
+        if (inQuote) {
+            if (c === '"') {
+                if (i + 1 < line.length && line[i + 1] === '"') {
+                    cur += '"';
+                    i++;
+                } else {
+                    inQuote = false;
+                }
+            } else {
+                cur += c;
+            }
+        } else {
+            if (c === '"') {
+                inQuote = true;
+            } else if (c === ',') {
+                res.push(cur);
+                cur = '';
+            } else {
+                cur += c;
+            }
+        }
+    }
+    res.push(cur);
+    return res;
+};
+
+// Normalises line endings and strips a UTF-8 BOM
+export const splitCsvLines = (text: string): string[] => {
+    const input = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+    return input.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+};
+
+export const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
@@ -0,0 +1,51 @@
+// Shared timestamp helpers used by the transcript parser, exporters and services.
+
+// Accepts "MM:SS", "HH:MM:SS" (optionally with fractional seconds, e.g. "01:02.5")
+export const parseTimeToSeconds = (timeStr: string): number => {
+    if (!timeStr) return 0;
+    const parts = timeStr.trim().split(':').map(Number);
+    if (parts.some(isNaN)) return 0;
+
+    // HH:MM:SS or MM:SS
+    if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
+    if (parts.length === 2) return parts[0] * 60 + parts[1];
+    if (parts.length === 1) return parts[0];
+    return 0;
+};
+
+export const formatSecondsToTime = (totalSeconds: number): string => {
+    const safe = Math.max(0, totalSeconds);
+    const h = Math.floor(safe / 3600);
+    const m = Math.floor((safe % 3600) / 60);
+    const s = Math.floor(safe % 60);
+
+    const mm = m.toString().padStart(2, '0');
+    const ss = s.toString().padStart(2, '0');
+
+    if (h > 0) {
+        return `${h.toString().padStart(2, '0')}:${mm}:${ss}`;
+    }
+    return `${mm}:${ss}`;
+};
+
+const formatMsTimestamp = (totalSeconds: number, msSeparator: string): string => {
+    const totalMs = Math.round(Math.max(0, totalSeconds) * 1000);
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const seconds = Math.floor((totalMs % 60000) / 1000);
+    const milliseconds = totalMs % 1000;
+
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}${msSeparator}${milliseconds.toString().padStart(3, '0')}`;
+};
+
+// "HH:MM:SS,mmm"
+export const formatSecondsToSRTTimestamp = (totalSeconds: number): string => formatMsTimestamp(totalSeconds, ',');
+
+// "HH:MM:SS.mmm"
+export const formatSecondsToVTTTimestamp = (totalSeconds: number): string => formatMsTimestamp(totalSeconds, '.');
+
+// Matches "MM:SS" / "HH:MM:SS" as produced by the model and by formatSecondsToTime
+export const TIME_PATTERN = /^\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?$/;
+
+// Leading "[start - end]" (or "[start]") of a transcript line
+export const LINE_TIME_REGEX = /^\[(\d{1,2}:\d{2}(?::\d{2})?)(?:\s*-\s*(\d{1,2}:\d{2}(?::\d{2})?))?\]/;